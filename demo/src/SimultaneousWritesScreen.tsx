@@ -21,6 +21,7 @@ import { DrizzleAppSchema } from '@powersync/drizzle-driver';
 import { OPSqliteOpenFactory } from '@powersync/op-sqlite';
 import {
   drizzle,
+  getPowerSyncWriteConnection,
   OPSQLiteDatabase,
 } from '@powersync-community/drizzle-op-sqlite-sync';
 import { DB, open } from '@op-engineering/op-sqlite';
@@ -56,14 +57,6 @@ export interface TestResult {
   error?: string;
 }
 
-function getPowerSyncWriteDB(powersync: PowerSyncDatabase): DB {
-  const adapter = powersync.database as any;
-  if (!adapter?.writeConnection?.DB) {
-    throw new Error('PowerSync write connection not available');
-  }
-  return adapter.writeConnection.DB as DB;
-}
-
 async function runLockingTest(
   powersync: PowerSyncDatabase,
   separateWriteConnection: DB,
@@ -800,7 +793,7 @@ export async function runSimultaneousWritesTest(
     });
 
     // Create single shared drizzle instance
-    const db = getPowerSyncWriteDB(powersync);
+    const db = getPowerSyncWriteConnection(powersync);
     drizzleOnPowerSync = drizzle(db, { schema: drizzleSchema });
 
     // Run all tests in sequence
@@ -2,14 +2,9 @@ import React from 'react';
 import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
 import {
   AbstractPowerSyncDatabase,
-  BaseObserver,
-  BatchedUpdateNotification,
   createBaseLogger,
-  DBAdapterListener,
   LogLevel,
   PowerSyncDatabase,
-  RowUpdateType,
-  UpdateNotification,
 } from '@powersync/react-native';
 import { relations } from 'drizzle-orm';
 import { OPSqliteOpenFactory } from '@powersync/op-sqlite';
@@ -19,7 +14,9 @@ import {
   wrapPowerSyncWithDrizzle,
 } from '@powersync/drizzle-driver';
 import {
+  attachPowerSyncUpdateNotifications,
   drizzle,
+  getPowerSyncWriteConnection,
   OPSQLiteDatabase,
 } from '@powersync-community/drizzle-op-sqlite-sync';
 import { DB } from '@op-engineering/op-sqlite';
@@ -130,7 +127,6 @@ export class System {
   powersync: PowerSyncDatabase;
   drizzle: PowerSyncSQLiteDatabase<typeof drizzleSchema>;
   drizzleSync?: OPSQLiteDatabase<typeof drizzleSchema>;
-  updateBuffer: UpdateNotification[] = [];
 
   constructor() {
     this.connector = new SelfhostConnector();
@@ -152,8 +148,7 @@ export class System {
     await this.powersync.connect(this.connector);
     await this.powersync.waitForFirstSync();
 
-    const adapter = this.powersync.database as any;
-    const db = adapter.writeConnection.DB;
+    const db = getPowerSyncWriteConnection(this.powersync);
 
     this.drizzleSync = drizzle(db, {
       schema: drizzleSchema,
@@ -174,66 +169,8 @@ export class System {
       db.executeSync(stmt);
     }
 
-    // Handle update hook to buffer row changes during a transaction
-    db.updateHook(update => {
-      let opType: RowUpdateType;
-      switch (update.operation) {
-        case 'INSERT':
-          opType = RowUpdateType.SQLITE_INSERT;
-          break;
-        case 'DELETE':
-          opType = RowUpdateType.SQLITE_DELETE;
-          break;
-        case 'UPDATE':
-          opType = RowUpdateType.SQLITE_UPDATE;
-          break;
-      }
-
-      console.log('Update Hook:', update.table, opType, update.rowId);
-
-      this.updateBuffer.push({
-        table: update.table,
-        opType,
-        rowId: update.rowId,
-      });
-    });
-
-    // Handle commit hook to notify listeners after a successful transaction
-    db.commitHook(() => {
-      if (!this.updateBuffer.length) {
-        return;
-      }
-
-      console.info(
-        'Commit Hook: Notifying listeners of updates',
-        this.updateBuffer,
-      );
-
-      const groupedUpdates = this.updateBuffer.reduce(
-        (grouping: Record<string, UpdateNotification[]>, update) => {
-          const { table } = update;
-          const updateGroup = grouping[table] || (grouping[table] = []);
-          updateGroup.push(update);
-          return grouping;
-        },
-        {},
-      );
-
-      const batchedUpdate: BatchedUpdateNotification = {
-        groupedUpdates,
-        rawUpdates: this.updateBuffer,
-        tables: Object.keys(groupedUpdates),
-      };
-
-      this.updateBuffer = [];
-
-      const adapter = this.powersync
-        .database as any as BaseObserver<DBAdapterListener>;
-
-      adapter.iterateListeners(l => {
-        return l.tablesUpdated?.(batchedUpdate);
-      });
-    });
+    // Forward changes made through the sync driver to PowerSync's watch and useQuery listeners
+    attachPowerSyncUpdateNotifications(this.powersync, db);
 
     return db;
   }
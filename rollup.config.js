@@ -10,38 +10,46 @@ export default (commandLineArgs) => {
   // Clears rollup CLI warning https://github.com/rollup/rollup/issues/2694
   delete commandLineArgs.sourceMap;
 
-  return [
-    {
-      input: 'src/index.ts',
-      output: {
-        format: 'cjs',
-        file: 'dist/index.cjs',
-        sourcemap: sourceMap,
-        exports: 'named'
-      },
-      plugins: [
-        resolve({
-          preferBuiltins: false,
-        }),
-        commonjs(),
-        typescript({
-          tsconfig: './tsconfig.json',
-          outDir: 'dist',
-          sourceMap,
-          /**
-           * The Typescript plugin complains about internal Drizzle types not matching when selecting
-           * other moduleResolution settings.
-           */
-          // moduleResolution: 'bundler'
-        })
-      ],
-      external: [/^drizzle-orm(\/.*)?$/]
+  const entry = (input, file) => ({
+    input,
+    output: {
+      format: 'cjs',
+      file,
+      sourcemap: sourceMap,
+      exports: 'named'
     },
+    plugins: [
+      resolve({
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        outDir: 'dist',
+        sourceMap,
+        /**
+         * The Typescript plugin complains about internal Drizzle types not matching when selecting
+         * other moduleResolution settings.
+         */
+        // moduleResolution: 'bundler'
+      })
+    ],
+    external: [/^drizzle-orm(\/.*)?$/, 'react']
+  });
+
+  return [
+    entry('src/index.ts', 'dist/index.cjs'),
+    entry('src/react/index.ts', 'dist/react.cjs'),
     // This is required to avoid https://github.com/arethetypeswrong/arethetypeswrong.github.io/blob/main/docs/problems/FalseESM.md
     {
       input: './lib/src/index.d.ts',
       output: [{ file: 'dist/index.d.cts', format: 'cjs' }],
       plugins: [dts()]
+    },
+    {
+      input: './lib/src/react/index.d.ts',
+      output: [{ file: 'dist/react.d.cts', format: 'cjs' }],
+      plugins: [dts()]
     }
   ];
 };
@@ -0,0 +1,106 @@
+import { getTableName, Table } from 'drizzle-orm';
+import { Cache, type MutationOption } from 'drizzle-orm/cache/core';
+import type { CacheConfig } from 'drizzle-orm/cache/core/types';
+import { entityKind, is } from 'drizzle-orm/entity';
+import type { SyncCache } from './SyncCache.js';
+
+interface MemoryCacheEntry {
+  response: any;
+  tables: string[];
+  expiresAt?: number;
+}
+
+/**
+ * In-memory query result cache that implements both drizzle's {@link Cache} and {@link SyncCache}, so it
+ * can be used with the synchronous and the async driver. Entries are kept until their tables are mutated
+ * or they expire according to the {@link CacheConfig}.
+ */
+export class MemoryCache extends Cache implements SyncCache {
+  static readonly [entityKind]: string = 'OPSQLiteMemoryCache';
+
+  protected entries = new Map<string, MemoryCacheEntry>();
+
+  constructor(
+    protected useGlobally = false,
+    protected config?: CacheConfig
+  ) {
+    super();
+  }
+
+  strategy(): 'explicit' | 'all' {
+    return this.useGlobally ? 'all' : 'explicit';
+  }
+
+  getSync(key: string): any[] | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry?.response;
+  }
+
+  putSync(key: string, response: any, tables: string[], _isTag: boolean, config?: CacheConfig): void {
+    const expiryConfig = config ?? this.config;
+    const expiresAt = expiryConfig?.keepTtl ? this.entries.get(key)?.expiresAt : getExpiry(expiryConfig);
+    this.entries.set(key, { response, tables, expiresAt });
+  }
+
+  onMutateSync(params: MutationOption): void {
+    const tags = Array.isArray(params.tags) ? params.tags : params.tags ? [params.tags] : [];
+    const tables = Array.isArray(params.tables) ? params.tables : params.tables ? [params.tables] : [];
+    const tableNames = new Set(tables.map((table) => (is(table, Table) ? getTableName(table) : table)));
+
+    for (const tag of tags) {
+      this.entries.delete(tag);
+    }
+    for (const [key, entry] of this.entries) {
+      if (entry.tables.some((table) => tableNames.has(table))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async get(key: string): Promise<any[] | undefined> {
+    return this.getSync(key);
+  }
+
+  async put(key: string, response: any, tables: string[], isTag: boolean, config?: CacheConfig): Promise<void> {
+    this.putSync(key, response, tables, isTag, config);
+  }
+
+  async onMutate(params: MutationOption): Promise<void> {
+    this.onMutateSync(params);
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function getExpiry(config: CacheConfig | undefined): number | undefined {
+  if (config?.px !== undefined) {
+    return Date.now() + config.px;
+  }
+  if (config?.ex !== undefined) {
+    return Date.now() + config.ex * 1000;
+  }
+  if (config?.pxat !== undefined) {
+    return config.pxat;
+  }
+  if (config?.exat !== undefined) {
+    return config.exat * 1000;
+  }
+  return undefined;
+}
+
+/**
+ * Creates a {@link MemoryCache}. With `global: true` every select is cached unless it opts out through
+ * `$withCache(false)`, otherwise only queries that opt in through `$withCache()` are cached.
+ */
+export function memoryCache({ global = false, config }: { global?: boolean; config?: CacheConfig } = {}): MemoryCache {
+  return new MemoryCache(global, config);
+}
@@ -0,0 +1,38 @@
+import type { Cache, MutationOption } from 'drizzle-orm/cache/core';
+import type { CacheConfig } from 'drizzle-orm/cache/core/types';
+
+/**
+ * Synchronous counterpart of drizzle's {@link Cache} methods, required by the synchronous driver because
+ * it cannot await the promise-based cache API.
+ */
+export interface SyncCache {
+  strategy(): 'explicit' | 'all';
+  getSync(key: string, tables: string[], isTag: boolean, isAutoInvalidate?: boolean): any[] | undefined;
+  putSync(key: string, response: any, tables: string[], isTag: boolean, config?: CacheConfig): void;
+  onMutateSync(params: MutationOption): void;
+}
+
+export function isSyncCache(cache: Cache): cache is Cache & SyncCache {
+  const candidate = cache as Partial<SyncCache>;
+  return (
+    typeof candidate.getSync === 'function' &&
+    typeof candidate.putSync === 'function' &&
+    typeof candidate.onMutateSync === 'function'
+  );
+}
+
+/**
+ * Builds the cache key of a query from its SQL and parameters. Unlike drizzle's `hashQuery`, this is
+ * synchronous and distinguishes blob and bigint parameters.
+ */
+export function getQueryCacheKey(sql: string, params: unknown[]): string {
+  return `${sql}-${JSON.stringify(params, (_key, value) => {
+    if (typeof value === 'bigint') {
+      return `${value}n`;
+    }
+    if (value instanceof ArrayBuffer) {
+      return Array.from(new Uint8Array(value));
+    }
+    return value;
+  })}`;
+}
@@ -0,0 +1,23 @@
+import type { Cache } from 'drizzle-orm/cache/core';
+import { getTableUpdateObserver, type SQLiteUpdateHooks } from '../sqlite/TableUpdateObserver.js';
+import { isSyncCache } from './SyncCache.js';
+
+/**
+ * Invalidates the cached queries of every table changed by a committed transaction, including writes that
+ * bypass drizzle such as PowerSync's sync operations. op-sqlite reports commits asynchronously, so the cache
+ * is invalidated shortly after the commit rather than immediately.
+ *
+ * @returns A function that stops invalidating.
+ */
+export function invalidateOnTableUpdates(hooks: SQLiteUpdateHooks, cache: Cache): () => void {
+  return getTableUpdateObserver(hooks).registerListener({
+    tablesCommitted: (updates) => {
+      const tables = [...new Set(updates.map((update) => update.table))];
+      if (isSyncCache(cache)) {
+        cache.onMutateSync({ tables });
+      } else {
+        void cache.onMutate({ tables });
+      }
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { SyncSQLiteClient, SyncSQLiteStatement } from './SyncSQLiteClient.js';
+
+/**
+ * The subset of better-sqlite3's `Statement` used by the adapter.
+ */
+export interface BetterSQLite3Statement {
+  readonly reader: boolean;
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): { changes: number; lastInsertRowid: number | bigint };
+  raw(toggle?: boolean): BetterSQLite3Statement;
+}
+
+/**
+ * The subset of better-sqlite3's `Database` used by the adapter.
+ */
+export interface BetterSQLite3Database {
+  prepare(sql: string): BetterSQLite3Statement;
+}
+
+/**
+ * Adapts a better-sqlite3 `Database` to {@link SyncSQLiteClient}.
+ */
+export function createBetterSQLite3Client(db: BetterSQLite3Database): SyncSQLiteClient {
+  return {
+    execute: (sql, params) => createStatement(db.prepare(sql)).execute(params),
+    executeRaw: (sql, params) => createStatement(db.prepare(sql)).executeRaw(params),
+    run: (sql, params) => createStatement(db.prepare(sql)).run(params),
+    prepare: (sql) => createStatement(db.prepare(sql))
+  };
+}
+
+function createStatement(stmt: BetterSQLite3Statement): SyncSQLiteStatement {
+  return {
+    execute: (params = []) => {
+      if (!stmt.reader) {
+        stmt.run(...params);
+        return [];
+      }
+      return stmt.raw(false).all(...params) as Record<string, unknown>[];
+    },
+    executeRaw: (params = []) => {
+      if (!stmt.reader) {
+        stmt.run(...params);
+        return [];
+      }
+      return stmt.raw(true).all(...params) as unknown[][];
+    },
+    run: (params = []) => {
+      const { changes, lastInsertRowid } = stmt.run(...params);
+      return { changes, lastInsertRowid };
+    },
+    // better-sqlite3 finalizes statements once they are garbage collected
+    finalize: () => {}
+  };
+}
@@ -0,0 +1,53 @@
+import { SyncSQLiteClient, SyncSQLiteStatement } from './SyncSQLiteClient.js';
+
+/**
+ * The subset of `node:sqlite`'s `StatementSync` used by the adapter.
+ */
+export interface NodeSQLiteStatement {
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+  setReturnArrays?(enabled: boolean): void;
+}
+
+/**
+ * The subset of `node:sqlite`'s `DatabaseSync` used by the adapter.
+ */
+export interface NodeSQLiteDatabase {
+  prepare(sql: string): NodeSQLiteStatement;
+}
+
+/**
+ * Adapts a `node:sqlite` `DatabaseSync` to {@link SyncSQLiteClient}.
+ *
+ * Raw array results require `StatementSync.setReturnArrays`, available since Node.js 22.16.
+ */
+export function createNodeSQLiteClient(db: NodeSQLiteDatabase): SyncSQLiteClient {
+  return {
+    execute: (sql, params) => createStatement(db.prepare(sql)).execute(params),
+    executeRaw: (sql, params) => createStatement(db.prepare(sql)).executeRaw(params),
+    run: (sql, params) => createStatement(db.prepare(sql)).run(params),
+    prepare: (sql) => createStatement(db.prepare(sql))
+  };
+}
+
+function createStatement(stmt: NodeSQLiteStatement): SyncSQLiteStatement {
+  return {
+    execute: (params = []) => {
+      stmt.setReturnArrays?.(false);
+      return stmt.all(...params) as Record<string, unknown>[];
+    },
+    executeRaw: (params = []) => {
+      if (!stmt.setReturnArrays) {
+        throw new Error('The node:sqlite adapter requires StatementSync.setReturnArrays (Node.js 22.16 or later)');
+      }
+      stmt.setReturnArrays(true);
+      return stmt.all(...params) as unknown[][];
+    },
+    run: (params = []) => {
+      const { changes, lastInsertRowid } = stmt.run(...params);
+      return { changes: Number(changes), lastInsertRowid };
+    },
+    // Statements are finalized by node:sqlite once they are garbage collected
+    finalize: () => {}
+  };
+}
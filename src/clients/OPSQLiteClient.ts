@@ -0,0 +1,49 @@
+import { DB } from '@op-engineering/op-sqlite';
+import { SyncSQLiteClient } from './SyncSQLiteClient.js';
+import { toOPSQLiteParams } from '../sqlite/values.js';
+import { assertNoAsyncTransaction } from '../sqlite/AsyncTransactionGuard.js';
+
+export function isOPSQLiteDB(client: unknown): client is DB {
+  return typeof (client as Partial<DB> | undefined)?.executeRawSync === 'function';
+}
+
+/**
+ * Adapts an op-sqlite connection to {@link SyncSQLiteClient} using its synchronous execute functions.
+ *
+ * Parameters are converted with {@link toOPSQLiteParams}. op-sqlite's prepared statements can only be executed
+ * asynchronously, so the adapter does not implement `prepare`. Databases are attached with op-sqlite's `attach`.
+ * Statements fail with an {@link OPSQLiteAsyncTransactionError} while a `drizzleAsync()` transaction is open on `db`.
+ */
+export function createOPSQLiteClient(db: DB): SyncSQLiteClient {
+  return {
+    execute: (sql, params) => {
+      assertNoAsyncTransaction(db, sql);
+      return db.executeSync(sql, toOPSQLiteParams(params)).rows;
+    },
+    executeRaw: (sql, params) => {
+      assertNoAsyncTransaction(db, sql);
+      return db.executeRawSync(sql, toOPSQLiteParams(params));
+    },
+    run: (sql, params) => {
+      assertNoAsyncTransaction(db, sql);
+      const rs = db.executeSync(sql, toOPSQLiteParams(params));
+      return { changes: rs.rowsAffected, lastInsertRowid: rs.insertId };
+    },
+    attach: (alias, database) => {
+      // op-sqlite inserts the alias into its ATTACH statement without quoting it
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(alias)) {
+        throw new Error(`op-sqlite can only attach databases under plain identifiers, not "${alias}"`);
+      }
+      assertNoAsyncTransaction(db, `attach ${alias}`);
+      const { name, location } = typeof database === 'string' ? { name: database, location: undefined } : database;
+      db.attach(
+        location === undefined ? { secondaryDbFileName: name, alias } : { secondaryDbFileName: name, alias, location }
+      );
+    },
+    detach: (alias) => {
+      assertNoAsyncTransaction(db, `detach ${alias}`);
+      db.detach(alias);
+    },
+    updateHooks: db
+  };
+}
@@ -0,0 +1,62 @@
+import type { AttachedDatabase } from '../sqlite/AttachedDatabases.js';
+import type { SQLiteUpdateHooks } from '../sqlite/TableUpdateObserver.js';
+
+/**
+ * Result of a statement executed with {@link SyncSQLiteClient.run}.
+ */
+export interface SyncSQLiteRunResult {
+  /** Number of rows inserted, updated or deleted by the statement. */
+  changes: number;
+  /** Rowid of the most recently inserted row, if the driver reports one. */
+  lastInsertRowid?: number | bigint;
+}
+
+/**
+ * A compiled statement that can be executed repeatedly with new parameters.
+ */
+export interface SyncSQLiteStatement {
+  execute(params?: unknown[]): Record<string, unknown>[];
+  executeRaw(params?: unknown[]): unknown[][];
+  run(params?: unknown[]): SyncSQLiteRunResult;
+  /**
+   * Releases the statement. It must not be executed afterwards.
+   */
+  finalize(): void;
+}
+
+/**
+ * Minimal synchronous SQLite client used by the Drizzle session.
+ * Adapters are provided for op-sqlite, `node:sqlite` and better-sqlite3.
+ */
+export interface SyncSQLiteClient {
+  /**
+   * Executes a statement and returns the rows as objects keyed by column name.
+   */
+  execute(sql: string, params?: unknown[]): Record<string, unknown>[];
+  /**
+   * Executes a statement and returns the rows as arrays of column values, in the order of the result columns.
+   */
+  executeRaw(sql: string, params?: unknown[]): unknown[][];
+  /**
+   * Executes a statement without returning rows.
+   */
+  run(sql: string, params?: unknown[]): SyncSQLiteRunResult;
+  /**
+   * Compiles a statement for repeated execution. Clients without synchronous prepared statements
+   * leave this out, and queries are then executed from their SQL on every call.
+   */
+  prepare?(sql: string): SyncSQLiteStatement;
+  /**
+   * Attaches a database under `alias` through the driver's own API. Clients without it attach databases with
+   * `ATTACH DATABASE`.
+   */
+  attach?(alias: string, database: AttachedDatabase): void;
+  /**
+   * Detaches the database attached under `alias`. Clients without it use `DETACH DATABASE`.
+   */
+  detach?(alias: string): void;
+  /**
+   * Hooks reporting row changes and transaction outcomes, required to watch queries.
+   */
+  updateHooks?: SQLiteUpdateHooks;
+}
@@ -1,3 +1,142 @@
-import { drizzle, type DrizzleQuery, type OPSQLiteDatabase } from './sqlite/OPSQLiteDatabase.js';
+import {
+  drizzle,
+  drizzleInWriteTransaction,
+  type DrizzleQuery,
+  type OPSQLiteConnections,
+  type OPSQLiteDatabase,
+  type OPSQLiteDrizzleConfig,
+  type OPSQLiteViewConfig
+} from './sqlite/OPSQLiteDatabase.js';
+import type {
+  OPSQLiteScriptConfig,
+  OPSQLiteTransaction,
+  OPSQLiteTransactionConfig
+} from './sqlite/OPSQLiteBaseSession.js';
+import type { OPSQLiteRunResult } from './sqlite/OPSQLitePreparedQuery.js';
+import type { ReaderSelection } from './sqlite/ReaderPool.js';
+import { drizzleAsync, type OPSQLiteAsyncDatabase } from './sqlite/OPSQLiteAsyncDatabase.js';
+import type { OPSQLiteAsyncTransaction } from './sqlite/OPSQLiteAsyncSession.js';
+import {
+  OPSQLiteAsyncTransactionError,
+  OPSQLiteReadOnlyTransactionError,
+  OPSQLiteScriptError,
+  OPSQLiteWriteLockError,
+  isWriteLockError
+} from './sqlite/errors.js';
+import type { ScriptStatement } from './sqlite/script.js';
+import { type AttachedSchema, attachedSchema } from './sqlite/attachedSchema.js';
+import type { AttachedDatabase } from './sqlite/AttachedDatabases.js';
+import {
+  bm25,
+  type Fts5Config,
+  type Fts5StatementsConfig,
+  fts5Statements,
+  fts5RebuildStatement,
+  fts5Table,
+  highlight,
+  match,
+  snippet,
+  type SnippetOptions
+} from './sqlite/fts5.js';
+import type { SyncQuery, WatchOptions } from './sqlite/watch.js';
+import type { SyncSQLiteClient, SyncSQLiteRunResult, SyncSQLiteStatement } from './clients/SyncSQLiteClient.js';
+import { createOPSQLiteClient } from './clients/OPSQLiteClient.js';
+import {
+  createNodeSQLiteClient,
+  type NodeSQLiteDatabase,
+  type NodeSQLiteStatement
+} from './clients/NodeSQLiteClient.js';
+import {
+  createBetterSQLite3Client,
+  type BetterSQLite3Database,
+  type BetterSQLite3Statement
+} from './clients/BetterSQLite3Client.js';
+import {
+  attachPowerSyncUpdateNotifications,
+  type PowerSyncBatchedUpdateNotification,
+  type PowerSyncDatabaseLike,
+  type PowerSyncUpdateNotification
+} from './powersync/PowerSyncUpdateNotifications.js';
+import { getPowerSyncWriteConnection } from './powersync/PowerSyncConnection.js';
+import { attachPowerSyncWriteLock, type PowerSyncWriteLock } from './powersync/PowerSyncWriteLock.js';
+import type { PowerSyncSchemaLike } from './powersync/PowerSyncViewDialect.js';
+import { type CompilableQuery, type CompiledQuery, toCompilableQuery } from './powersync/toCompilableQuery.js';
+import type { RetryConfig } from './sqlite/RetryPolicy.js';
+import type { InstrumentationConfig } from './sqlite/QueryInstrumentation.js';
+import type { OPSQLiteLogger, QueryMethod, QueryPlanStep, QueryReport, RetryEvent } from './sqlite/logger.js';
+import { MemoryCache, memoryCache } from './cache/MemoryCache.js';
+import type { SyncCache } from './cache/SyncCache.js';
+import { type MigrateConfig, migrate, type MigrationBundle } from './migrator/migrate.js';
 
-export { drizzle, DrizzleQuery, OPSQLiteDatabase };
+export {
+  drizzle,
+  drizzleInWriteTransaction,
+  DrizzleQuery,
+  OPSQLiteConnections,
+  OPSQLiteDatabase,
+  OPSQLiteDrizzleConfig,
+  OPSQLiteViewConfig,
+  OPSQLiteRunResult,
+  ReaderSelection,
+  OPSQLiteTransaction,
+  OPSQLiteTransactionConfig,
+  OPSQLiteScriptConfig,
+  ScriptStatement,
+  attachedSchema,
+  AttachedSchema,
+  AttachedDatabase,
+  fts5Table,
+  fts5Statements,
+  fts5RebuildStatement,
+  Fts5Config,
+  Fts5StatementsConfig,
+  match,
+  bm25,
+  highlight,
+  snippet,
+  SnippetOptions,
+  drizzleAsync,
+  OPSQLiteAsyncDatabase,
+  OPSQLiteAsyncTransaction,
+  OPSQLiteReadOnlyTransactionError,
+  OPSQLiteWriteLockError,
+  isWriteLockError,
+  OPSQLiteAsyncTransactionError,
+  OPSQLiteScriptError,
+  OPSQLiteLogger,
+  RetryConfig,
+  RetryEvent,
+  InstrumentationConfig,
+  QueryMethod,
+  QueryPlanStep,
+  QueryReport,
+  SyncQuery,
+  WatchOptions,
+  SyncSQLiteClient,
+  SyncSQLiteRunResult,
+  SyncSQLiteStatement,
+  createOPSQLiteClient,
+  createNodeSQLiteClient,
+  NodeSQLiteDatabase,
+  NodeSQLiteStatement,
+  createBetterSQLite3Client,
+  BetterSQLite3Database,
+  BetterSQLite3Statement,
+  attachPowerSyncUpdateNotifications,
+  PowerSyncBatchedUpdateNotification,
+  PowerSyncDatabaseLike,
+  PowerSyncUpdateNotification,
+  getPowerSyncWriteConnection,
+  attachPowerSyncWriteLock,
+  PowerSyncWriteLock,
+  PowerSyncSchemaLike,
+  toCompilableQuery,
+  CompilableQuery,
+  CompiledQuery,
+  migrate,
+  MigrateConfig,
+  MigrationBundle,
+  MemoryCache,
+  memoryCache,
+  SyncCache
+};
@@ -0,0 +1,79 @@
+import { sql } from 'drizzle-orm';
+import type { MigrationMeta } from 'drizzle-orm/migrator';
+import type { OPSQLiteDatabase } from '../sqlite/OPSQLiteDatabase.js';
+import { sha256 } from './sha256.js';
+
+/**
+ * The `migrations.js` bundle drizzle-kit generates for React Native drivers (`driver: 'expo'` or `'op-sqlite'`).
+ */
+export interface MigrationBundle {
+  journal: {
+    entries: { idx: number; when: number; tag: string; breakpoints: boolean }[];
+  };
+  migrations: Record<string, string>;
+}
+
+export interface MigrateConfig {
+  /**
+   * Table recording the applied migrations. Defaults to `__drizzle_migrations`.
+   */
+  migrationsTable?: string;
+}
+
+export function readMigrationFiles({ journal, migrations }: MigrationBundle): MigrationMeta[] {
+  return journal.entries.map((entry) => {
+    const query = migrations[`m${entry.idx.toString().padStart(4, '0')}`];
+    if (query === undefined) {
+      throw new Error(`Missing migration: ${entry.tag}`);
+    }
+
+    return {
+      sql: query.split('--> statement-breakpoint').filter((statement) => statement.trim() !== ''),
+      bps: entry.breakpoints,
+      folderMillis: entry.when,
+      hash: sha256(query)
+    };
+  });
+}
+
+/**
+ * Applies the pending migrations of a drizzle-kit migration bundle. Each migration runs in its own
+ * transaction and is recorded in the migrations table together with its hash.
+ *
+ * Migrations are applied synchronously, so this can run before the first render.
+ */
+export function migrate<TSchema extends Record<string, unknown>>(
+  db: OPSQLiteDatabase<TSchema>,
+  bundle: MigrationBundle,
+  config: MigrateConfig = {}
+): void {
+  const migrationsTable = sql.identifier(config.migrationsTable ?? '__drizzle_migrations');
+  const migrations = readMigrationFiles(bundle);
+
+  db.run(sql`
+    CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at numeric
+    )
+  `);
+
+  const [lastMigration] = db.values<[number, string, number]>(
+    sql`SELECT id, hash, created_at FROM ${migrationsTable} ORDER BY created_at DESC LIMIT 1`
+  );
+
+  for (const migration of migrations) {
+    if (lastMigration && Number(lastMigration[2]) >= migration.folderMillis) {
+      continue;
+    }
+
+    db.transaction((tx) => {
+      for (const statement of migration.sql) {
+        tx.run(sql.raw(statement));
+      }
+      tx.run(
+        sql`INSERT INTO ${migrationsTable} ("hash", "created_at") VALUES (${migration.hash}, ${migration.folderMillis})`
+      );
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { getTableUpdateObserver, type SQLiteHookCallbacks } from '../sqlite/TableUpdateObserver.js';
+import type { PowerSyncDatabaseLike } from './PowerSyncUpdateNotifications.js';
+
+/**
+ * The parts of `@powersync/op-sqlite`'s `OPSQLiteConnection` used by the driver. PowerSync does not expose its
+ * connections, so they are only accessed through {@link getPowerSyncWriteConnection} and checked at runtime.
+ */
+interface PowerSyncConnection {
+  DB: DB;
+  addTableUpdate(update: Parameters<NonNullable<SQLiteHookCallbacks['update']>>[0]): void;
+  updateBuffer: unknown[];
+}
+
+interface PowerSyncAdapterConnections {
+  writeConnection?: PowerSyncConnection | null;
+  readConnections?: { connection: PowerSyncConnection }[] | null;
+}
+
+function isPowerSyncConnection(connection: unknown): connection is PowerSyncConnection {
+  const candidate = connection as Partial<PowerSyncConnection> | null | undefined;
+  return typeof candidate?.DB?.executeSync === 'function' && typeof candidate.addTableUpdate === 'function';
+}
+
+/**
+ * Returns the op-sqlite connection PowerSync writes through, to pass to `drizzle()`. The PowerSync database must
+ * have been initialized with `await powersync.init()`.
+ *
+ * PowerSync's own hook callbacks are recorded for the connection, so that query caches, watches and
+ * {@link attachPowerSyncUpdateNotifications} keep calling them when they install their hooks.
+ */
+export function getPowerSyncWriteConnection(powersync: PowerSyncDatabaseLike): DB {
+  const connection = (powersync.database as PowerSyncAdapterConnections).writeConnection;
+  if (!isPowerSyncConnection(connection)) {
+    throw new Error(
+      'The PowerSync write connection is not available. Initialize the database with `await powersync.init()` ' +
+        'and use the adapter from @powersync/op-sqlite'
+    );
+  }
+  getTableUpdateObserver(connection.DB, hookCallbacks(connection));
+  return connection.DB;
+}
+
+/**
+ * Returns the hook callbacks PowerSync's connection installed on `db` when it was opened, or `undefined` when
+ * `db` is not one of PowerSync's connections. op-sqlite holds one callback per hook and cannot return it, so these
+ * mirror the ones the `OPSQLiteConnection` constructor installs.
+ */
+export function getPowerSyncHookCallbacks(
+  powersync: PowerSyncDatabaseLike,
+  db: object
+): SQLiteHookCallbacks | undefined {
+  const connection = findPowerSyncConnection(powersync, db);
+  return connection ? hookCallbacks(connection) : undefined;
+}
+
+/**
+ * Discards the updates PowerSync's connection for `db` buffered for its next notification, once they have been
+ * forwarded to PowerSync's listeners by other means.
+ */
+export function discardPowerSyncUpdates(powersync: PowerSyncDatabaseLike, db: object): void {
+  const connection = findPowerSyncConnection(powersync, db);
+  if (connection) {
+    connection.updateBuffer = [];
+  }
+}
+
+function findPowerSyncConnection(powersync: PowerSyncDatabaseLike, db: object): PowerSyncConnection | undefined {
+  const adapter = powersync.database as PowerSyncAdapterConnections;
+  return [adapter.writeConnection, ...(adapter.readConnections ?? []).map((read) => read.connection)].find(
+    (candidate): candidate is PowerSyncConnection => isPowerSyncConnection(candidate) && candidate.DB === db
+  );
+}
+
+function hookCallbacks(connection: PowerSyncConnection): SQLiteHookCallbacks {
+  return {
+    update: (update) => connection.addTableUpdate(update),
+    rollback: () => {
+      connection.updateBuffer = [];
+    }
+  };
+}
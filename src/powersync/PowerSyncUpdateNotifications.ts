@@ -0,0 +1,88 @@
+import type { UpdateHookOperation } from '@op-engineering/op-sqlite';
+import { getTableUpdateObserver, type SQLiteUpdateHooks } from '../sqlite/TableUpdateObserver.js';
+import {
+  discardPowerSyncUpdates,
+  getPowerSyncHookCallbacks,
+  getPowerSyncWriteConnection
+} from './PowerSyncConnection.js';
+
+/**
+ * Matches PowerSync's `RowUpdateType`, which uses the SQLite action codes.
+ */
+const ROW_UPDATE_TYPES: Record<UpdateHookOperation, number> = {
+  INSERT: 18,
+  DELETE: 9,
+  UPDATE: 23
+};
+
+export interface PowerSyncUpdateNotification {
+  table: string;
+  opType: number;
+  rowId: number;
+}
+
+export interface PowerSyncBatchedUpdateNotification {
+  rawUpdates: PowerSyncUpdateNotification[];
+  tables: string[];
+  groupedUpdates: Record<string, PowerSyncUpdateNotification[]>;
+}
+
+/**
+ * The subset of a PowerSync database used by the bridge, satisfied by `AbstractPowerSyncDatabase`.
+ */
+export interface PowerSyncDatabaseLike {
+  database: object;
+}
+
+/**
+ * PowerSync's database adapters are observers of `DBAdapterListener`s, although `DBAdapter` does not declare it.
+ */
+interface PowerSyncAdapterObserver {
+  iterateListeners(
+    cb: (listener: { tablesUpdated?: (update: PowerSyncBatchedUpdateNotification) => void }) => any
+  ): void;
+}
+
+/**
+ * Forwards changes committed on `db`, PowerSync's write connection by default, to the PowerSync database's table
+ * update listeners, so that `watch` and `useQuery` see writes made through the synchronous driver.
+ *
+ * When `db` is one of PowerSync's connections, its own hooks keep being called and are put back once forwarding
+ * stops. Changes forwarded at commit are dropped from the connection's buffer, so that PowerSync does not notify
+ * its listeners of them a second time.
+ *
+ * @returns A function that stops forwarding changes.
+ */
+export function attachPowerSyncUpdateNotifications(
+  powersync: PowerSyncDatabaseLike,
+  db: SQLiteUpdateHooks = getPowerSyncWriteConnection(powersync)
+): () => void {
+  const adapter = powersync.database as Partial<PowerSyncAdapterObserver>;
+  if (typeof adapter.iterateListeners !== 'function') {
+    throw new Error('The PowerSync database adapter does not support table update listeners');
+  }
+
+  return getTableUpdateObserver(db, getPowerSyncHookCallbacks(powersync, db)).registerListener({
+    tablesCommitted: (updates) => {
+      const rawUpdates = updates.map(({ table, operation, rowId }) => ({
+        table,
+        opType: ROW_UPDATE_TYPES[operation],
+        rowId
+      }));
+
+      const groupedUpdates: Record<string, PowerSyncUpdateNotification[]> = {};
+      for (const update of rawUpdates) {
+        (groupedUpdates[update.table] ??= []).push(update);
+      }
+
+      const batchedUpdate: PowerSyncBatchedUpdateNotification = {
+        rawUpdates,
+        tables: Object.keys(groupedUpdates),
+        groupedUpdates
+      };
+
+      adapter.iterateListeners!((listener) => listener.tablesUpdated?.(batchedUpdate));
+      discardPowerSyncUpdates(powersync, db);
+    }
+  });
+}
@@ -0,0 +1,502 @@
+import {
+  Column,
+  getTableName,
+  is,
+  Name,
+  Param,
+  type Placeholder,
+  SQL,
+  sql,
+  StringChunk,
+  type Query,
+  type SQLChunk
+} from 'drizzle-orm';
+import type { CasingCache } from 'drizzle-orm/casing';
+import { entityKind } from 'drizzle-orm/entity';
+import { DrizzleError } from 'drizzle-orm/errors';
+import { fillPlaceholders, type QueryWithTypings } from 'drizzle-orm/sql/sql';
+import { getTableColumns } from 'drizzle-orm/utils';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core/columns/common';
+import { type SQLiteDialectConfig, SQLiteSyncDialect } from 'drizzle-orm/sqlite-core/dialect';
+import type { IndexColumn } from 'drizzle-orm/sqlite-core/indexes';
+import type {
+  SQLiteDeleteConfig,
+  SQLiteInsertBuilder,
+  SQLiteInsertConfig,
+  SQLiteInsertOnConflictDoUpdateConfig,
+  SQLiteUpdateConfig
+} from 'drizzle-orm/sqlite-core/query-builders';
+import type { SelectedFieldsOrdered } from 'drizzle-orm/sqlite-core/query-builders/select.types';
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core/table';
+import type { SyncSQLiteClient, SyncSQLiteStatement } from '../clients/SyncSQLiteClient.js';
+
+/**
+ * The subset of a PowerSync schema used to find view-backed tables, satisfied by `Schema` and `DrizzleAppSchema`.
+ */
+export interface PowerSyncSchemaLike {
+  tables: { viewName: string }[];
+}
+
+/**
+ * Executes the statements of an emulated write with the given placeholder values.
+ */
+export interface ViewWriteStatements {
+  run(query: Query, placeholderValues: Record<string, unknown>): void;
+  values(query: Query, placeholderValues: Record<string, unknown>): unknown[][];
+}
+
+/**
+ * An upsert or a write with `returning()` against a PowerSync view, emulated with several statements.
+ * Returns the number of affected rows and the re-selected `returning()` rows.
+ */
+export type ViewWrite = (
+  statements: ViewWriteStatements,
+  placeholderValues: Record<string, unknown>
+) => { changes: number; rows: unknown[][] };
+
+/**
+ * Key under which the emulated write is attached to the compiled query.
+ */
+export const viewWrite = Symbol('viewWrite');
+
+// Placeholders filled in while the emulated write runs
+const NEW_ID = '__powersync_new_id';
+const ROW_ID = '__powersync_row_id';
+
+type ConflictConfig =
+  | { action: 'nothing'; target?: IndexColumn | IndexColumn[]; where?: SQL }
+  | ({ action: 'update' } & SQLiteInsertOnConflictDoUpdateConfig<any>);
+
+/**
+ * The configs passed to `onConflictDoNothing` and `onConflictDoUpdate`, keyed by the clause drizzle compiled them to.
+ */
+const conflictConfigs = new WeakMap<SQL, ConflictConfig>();
+
+/**
+ * Records the conflict configs of the inserts created by `builder`, so that {@link PowerSyncViewDialect} does not
+ * have to take drizzle's compiled conflict clauses apart.
+ */
+export function recordConflictConfigs<T extends SQLiteInsertBuilder<any, any, any>>(builder: T): T {
+  const values = builder.values;
+  builder.values = ((...args: Parameters<T['values']>) => {
+    const insert = (values as (...args: unknown[]) => any).apply(builder, args);
+    const { onConflictDoNothing, onConflictDoUpdate } = insert;
+    const record = (config: ConflictConfig) => {
+      const clauses = insert.config.onConflict as SQL[];
+      conflictConfigs.set(clauses[clauses.length - 1]!, config);
+    };
+    insert.onConflictDoNothing = (config: Omit<Extract<ConflictConfig, { action: 'nothing' }>, 'action'> = {}) => {
+      onConflictDoNothing.call(insert, config);
+      record({ action: 'nothing', ...config });
+      return insert;
+    };
+    insert.onConflictDoUpdate = (config: SQLiteInsertOnConflictDoUpdateConfig<any>) => {
+      onConflictDoUpdate.call(insert, config);
+      record({ action: 'update', ...config });
+      return insert;
+    };
+    return insert;
+  }) as T['values'];
+  return builder;
+}
+
+interface ConflictClause {
+  target: SQLiteColumn[];
+  set?: SQL;
+  where?: SQL;
+}
+
+/**
+ * Dialect for PowerSync's view-backed tables. SQLite rejects upserts on views, and `returning()` does not report
+ * rows written by the views' INSTEAD OF triggers, so these are compiled into an update-then-insert per row that
+ * re-selects the affected rows by `id`. Queries on other tables are compiled as usual.
+ */
+export class PowerSyncViewDialect extends SQLiteSyncDialect {
+  static readonly [entityKind]: string = 'PowerSyncViewDialect';
+
+  protected views: Set<string>;
+
+  constructor(schema: PowerSyncSchemaLike, config?: SQLiteDialectConfig) {
+    super(config);
+    this.views = new Set(schema.tables.map((table) => table.viewName));
+  }
+
+  override buildInsertQuery(config: SQLiteInsertConfig): SQL {
+    const { table, onConflict, returning } = config;
+    if (!this.isView(table) || (!onConflict?.length && !returning)) {
+      return super.buildInsertQuery(config);
+    }
+    if (!Array.isArray(config.values) || config.select) {
+      throw this.unsupported(table, 'insert ... select');
+    }
+    if (config.withList?.length) {
+      throw this.unsupported(table, 'with');
+    }
+    if (onConflict && onConflict.length > 1) {
+      throw this.unsupported(table, 'several conflict clauses');
+    }
+
+    const idColumn = this.idColumn(table);
+    const id = sql.identifier(this.columnName(idColumn));
+    const columns = Object.entries(getTableColumns(table) as Record<string, SQLiteColumn>).filter(
+      // Generated columns cannot be inserted
+      ([, column]) => !(column as SQLiteColumn & { shouldDisableInsert(): boolean }).shouldDisableInsert()
+    );
+    const conflict = onConflict?.length ? this.parseConflictClause(table, onConflict[0]!) : undefined;
+    const selection = returning && this.buildReturningSelection(table, returning);
+
+    const rows = config.values.map((row) => {
+      const values = new Map<SQLiteColumn, SQL | Param | Placeholder>(
+        columns.map(([key, column]) => [
+          column,
+          column === idColumn ? sql.placeholder(NEW_ID) : insertValue(column, row[key])
+        ])
+      );
+      const valueOf = (column: SQLiteColumn): SQL => {
+        const value = values.get(column);
+        if (!value) {
+          throw this.unsupported(table, `references to the column "${this.columnName(column)}"`);
+        }
+        return sql`${value}`;
+      };
+      const idKey = columns.find(([, column]) => column === idColumn)?.[0];
+
+      const rowWrite = {
+        newId: this.sqlToQuery(sql`select ${insertValue(idColumn, idKey ? row[idKey] : undefined)}`),
+        insert: this.sqlToQuery(
+          sql`insert into ${table} ${[...values.keys()].map((column) => sql.identifier(this.columnName(column)))} values ${[
+            ...values.values()
+          ]}`
+        ),
+        find: undefined as Query | undefined,
+        check: undefined as Query | undefined,
+        update: undefined as Query | undefined
+      };
+      if (conflict) {
+        const match = sql.join(
+          conflict.target.map((column) => sql`${sql.identifier(this.columnName(column))} = ${valueOf(column)}`),
+          sql` and `
+        );
+        rowWrite.find = this.sqlToQuery(sql`select ${id} from ${table} where ${match}`);
+        if (conflict.set) {
+          const where = conflict.where && this.replaceExcluded(table, conflict.where, valueOf);
+          rowWrite.check =
+            where &&
+            this.sqlToQuery(sql`select 1 from ${table} where ${id} = ${sql.placeholder(ROW_ID)} and (${where})`);
+          rowWrite.update = this.sqlToQuery(
+            sql`update ${table} set ${this.replaceExcluded(table, conflict.set, valueOf)} where ${id} = ${sql.placeholder(ROW_ID)}`
+          );
+        }
+      }
+      return rowWrite;
+    });
+
+    const write: ViewWrite = (statements, placeholderValues) => {
+      const ids: unknown[] = [];
+      for (const row of rows) {
+        const [[newId]] = statements.values(row.newId, placeholderValues);
+        const values = { ...placeholderValues, [NEW_ID]: newId };
+        const [existing] = row.find ? statements.values(row.find, values) : [];
+        if (!existing) {
+          statements.run(row.insert, values);
+          ids.push(newId);
+          continue;
+        }
+
+        const target = { ...values, [ROW_ID]: existing[0] };
+        if (!row.update || (row.check && statements.values(row.check, target).length === 0)) {
+          continue;
+        }
+        statements.run(row.update, target);
+        ids.push(existing[0]);
+      }
+      return {
+        changes: ids.length,
+        rows: selection ? this.reselect(statements, selection, ids, placeholderValues) : []
+      };
+    };
+
+    return Object.assign(super.buildInsertQuery(config), { [viewWrite]: write });
+  }
+
+  override buildUpdateQuery(config: SQLiteUpdateConfig): SQL {
+    const { table, returning } = config;
+    if (!this.isView(table) || !returning) {
+      return super.buildUpdateQuery(config);
+    }
+    if (config.from || config.joins.length || config.withList?.length) {
+      throw this.unsupported(table, 'update ... from');
+    }
+
+    const id = sql.identifier(this.columnName(this.idColumn(table)));
+    const find = this.buildFindQuery(table, config);
+    const update = this.sqlToQuery(
+      sql`update ${table} set ${this.buildUpdateSet(table, config.set)} where ${id} = ${sql.placeholder(ROW_ID)}`
+    );
+    const selection = this.buildReturningSelection(table, returning);
+
+    const write: ViewWrite = (statements, placeholderValues) => {
+      const ids = statements.values(find, placeholderValues).map(([id]) => id);
+      for (const id of ids) {
+        statements.run(update, { ...placeholderValues, [ROW_ID]: id });
+      }
+      return { changes: ids.length, rows: this.reselect(statements, selection, ids, placeholderValues) };
+    };
+
+    return Object.assign(super.buildUpdateQuery(config), { [viewWrite]: write });
+  }
+
+  override buildDeleteQuery(config: SQLiteDeleteConfig): SQL {
+    const { table, returning } = config;
+    if (!this.isView(table) || !returning) {
+      return super.buildDeleteQuery(config);
+    }
+    if (config.withList?.length) {
+      throw this.unsupported(table, 'with');
+    }
+
+    const id = sql.identifier(this.columnName(this.idColumn(table)));
+    const find = this.buildFindQuery(table, config);
+    const remove = this.sqlToQuery(sql`delete from ${table} where ${id} = ${sql.placeholder(ROW_ID)}`);
+    const selection = this.buildReturningSelection(table, returning);
+
+    const write: ViewWrite = (statements, placeholderValues) => {
+      const ids = statements.values(find, placeholderValues).map(([id]) => id);
+      // Deleted rows can only be selected beforehand
+      const rows = this.reselect(statements, selection, ids, placeholderValues);
+      for (const id of ids) {
+        statements.run(remove, { ...placeholderValues, [ROW_ID]: id });
+      }
+      return { changes: ids.length, rows };
+    };
+
+    return Object.assign(super.buildDeleteQuery(config), { [viewWrite]: write });
+  }
+
+  /**
+   * Carries the emulated write of upserts and `returning()` queries on views over to the compiled query.
+   */
+  override sqlToQuery(sql: SQL, invokeSource?: 'indexes'): QueryWithTypings {
+    const query = super.sqlToQuery(sql, invokeSource);
+    const write = (sql as SQL & { [viewWrite]?: ViewWrite })[viewWrite];
+    return write ? Object.assign(query, { [viewWrite]: write }) : query;
+  }
+
+  protected isView(table: SQLiteTable): boolean {
+    return this.views.has(getTableName(table));
+  }
+
+  protected columnName(column: SQLiteColumn): string {
+    return (this as unknown as { casing: CasingCache }).casing.getColumnCasing(column);
+  }
+
+  protected idColumn(table: SQLiteTable): SQLiteColumn {
+    const column = Object.values(getTableColumns(table) as Record<string, SQLiteColumn>).find(
+      (column) => this.columnName(column) === 'id'
+    );
+    if (!column) {
+      throw new DrizzleError({ message: `The PowerSync view "${getTableName(table)}" has no "id" column` });
+    }
+    return column;
+  }
+
+  protected unsupported(table: SQLiteTable, feature: string): DrizzleError {
+    return new DrizzleError({
+      message: `Upserts and returning() with ${feature} are not supported on the PowerSync view "${getTableName(table)}"`
+    });
+  }
+
+  /**
+   * Selects the ids of the rows matched by an update or delete, honouring its `order by` and `limit`.
+   */
+  protected buildFindQuery(table: SQLiteTable, config: SQLiteUpdateConfig | SQLiteDeleteConfig): Query {
+    const { buildOrderBy, buildLimit } = this as unknown as {
+      buildOrderBy(orderBy: SQLiteDeleteConfig['orderBy']): SQL | undefined;
+      buildLimit(limit: SQLiteDeleteConfig['limit']): SQL | undefined;
+    };
+    const id = sql.identifier(this.columnName(this.idColumn(table)));
+    const where = config.where ? sql` where ${config.where}` : undefined;
+    return this.sqlToQuery(
+      sql`select ${id} from ${table}${where}${buildOrderBy.call(this, config.orderBy)}${buildLimit.call(this, config.limit)}`
+    );
+  }
+
+  protected buildReturningSelection(table: SQLiteTable, returning: SelectedFieldsOrdered): Query {
+    const { buildSelection } = this as unknown as {
+      buildSelection(fields: SelectedFieldsOrdered, options: { isSingleTable: boolean }): SQL;
+    };
+    const id = sql.identifier(this.columnName(this.idColumn(table)));
+    return this.sqlToQuery(
+      sql`select ${buildSelection.call(this, returning, { isSingleTable: true })} from ${table} where ${id} = ${sql.placeholder(ROW_ID)}`
+    );
+  }
+
+  protected reselect(
+    statements: ViewWriteStatements,
+    selection: Query,
+    ids: unknown[],
+    placeholderValues: Record<string, unknown>
+  ): unknown[][] {
+    return ids.flatMap((id) => statements.values(selection, { ...placeholderValues, [ROW_ID]: id }));
+  }
+
+  /**
+   * Drizzle compiles `onConflictDoNothing` and `onConflictDoUpdate` to SQL right away, so the clause is looked up in
+   * the configs recorded by {@link recordConflictConfigs}.
+   */
+  protected parseConflictClause(table: SQLiteTable, clause: SQL): ConflictClause {
+    const config = conflictConfigs.get(clause);
+    if (!config) {
+      throw this.unsupported(table, 'conflict clauses of inserts that were not created with db.insert()');
+    }
+    if (config.target === undefined) {
+      // The view has no unique constraints that SQLite could match the conflict against
+      throw this.unsupported(table, 'conflict clauses without a target');
+    }
+    const target = Array.isArray(config.target) ? config.target : [config.target];
+    if (!target.every((column) => is(column, Column))) {
+      throw this.unsupported(table, 'conflict targets that are not columns');
+    }
+
+    if (config.action === 'nothing') {
+      if (config.where) {
+        throw this.unsupported(table, 'onConflictDoNothing({ where })');
+      }
+      return { target: target as SQLiteColumn[] };
+    }
+    if (config.targetWhere) {
+      throw this.unsupported(table, 'onConflictDoUpdate({ targetWhere })');
+    }
+    return {
+      target: target as SQLiteColumn[],
+      set: this.buildUpdateSet(table, updateSet(table, config.set)),
+      where: config.setWhere ?? config.where
+    };
+  }
+
+  /**
+   * Replaces references to `excluded.<column>` with the value proposed for insertion.
+   */
+  protected replaceExcluded(table: SQLiteTable, clause: SQL, valueOf: (column: SQLiteColumn) => SQL): SQL {
+    const columns = Object.values(getTableColumns(table) as Record<string, SQLiteColumn>);
+    const columnNamed = (name: string) => {
+      const column = columns.find((column) => this.columnName(column) === name);
+      if (!column) {
+        throw this.unsupported(table, `references to the column "excluded.${name}"`);
+      }
+      return column;
+    };
+
+    const replace = (chunks: SQLChunk[]): SQLChunk[] =>
+      chunks.flatMap((chunk, index): SQLChunk[] => {
+        if (is(chunk, SQL)) {
+          return [new SQL(replace(chunk.queryChunks))];
+        }
+        if (!is(chunk, StringChunk)) {
+          const previous = chunks[index - 1];
+          if (is(previous, StringChunk) && /\bexcluded\.$/i.test(previous.value.join(''))) {
+            if (is(chunk, Name)) {
+              return [valueOf(columnNamed(chunk.value))];
+            }
+            if (is(chunk, Column)) {
+              return [valueOf(chunk as SQLiteColumn)];
+            }
+          }
+          return [chunk];
+        }
+
+        const next = chunks[index + 1];
+        let text = chunk.value.join('');
+        if (is(next, Name) || is(next, Column)) {
+          // The column is replaced together with the following chunk
+          text = text.replace(/\bexcluded\.$/i, '');
+        }
+        return text.split(/\bexcluded\.(?:"([^"]+)"|(\w+))/i).flatMap((part, partIndex, parts): SQLChunk[] => {
+          // Split yields the text followed by the two capture groups of each match
+          switch (partIndex % 3) {
+            case 0:
+              return part ? [new StringChunk(part)] : [];
+            case 1:
+              return [valueOf(columnNamed(part ?? parts[partIndex + 1]!))];
+            default:
+              return [];
+          }
+        });
+      });
+
+    return new SQL(replace(clause.queryChunks));
+  }
+}
+
+/**
+ * Runs an emulated write in a savepoint, so that it is applied completely or not at all, and exposes it as a
+ * statement. Its rows are read as arrays, since `returning()` queries always have fields.
+ */
+export function createViewWriteStatement(
+  client: SyncSQLiteClient,
+  write: ViewWrite,
+  placeholderValues: Record<string, unknown>
+): Omit<SyncSQLiteStatement, 'finalize'> {
+  const statements: ViewWriteStatements = {
+    run: (query, values) => {
+      client.run(query.sql, fillPlaceholders(query.params, values));
+    },
+    values: (query, values) => client.executeRaw(query.sql, fillPlaceholders(query.params, values))
+  };
+  const execute = () => {
+    client.run('savepoint powersync_view_write');
+    try {
+      const result = write(statements, placeholderValues);
+      client.run('release savepoint powersync_view_write');
+      return result;
+    } catch (err) {
+      client.run('rollback to savepoint powersync_view_write');
+      client.run('release savepoint powersync_view_write');
+      throw err;
+    }
+  };
+
+  return {
+    execute: () => {
+      execute();
+      return [];
+    },
+    executeRaw: () => execute().rows,
+    run: () => ({ changes: execute().changes })
+  };
+}
+
+/**
+ * Mirrors how drizzle maps the `set` of an update to columns and parameters.
+ */
+function updateSet(table: SQLiteTable, set: Record<string, unknown>): Record<string, SQL | Param | SQLiteColumn> {
+  const columns = getTableColumns(table) as Record<string, SQLiteColumn>;
+  const entries = Object.entries(set)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, is(value, SQL) || is(value, Column) ? value : new Param(value, columns[key])]);
+  if (entries.length === 0) {
+    throw new Error('No values to set');
+  }
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Mirrors how drizzle fills in values that are missing from an insert.
+ */
+function insertValue(column: SQLiteColumn, value: Param | SQL | undefined): Param | SQL {
+  if (value !== undefined && !(is(value, Param) && value.value === undefined)) {
+    return value;
+  }
+  if (column.default !== null && column.default !== undefined) {
+    return is(column.default, SQL) ? column.default : sql.param(column.default, column);
+  }
+  if (column.defaultFn !== undefined) {
+    const defaultValue = column.defaultFn();
+    return is(defaultValue, SQL) ? defaultValue : sql.param(defaultValue, column);
+  }
+  if (!column.default && column.onUpdateFn !== undefined) {
+    const updateValue = column.onUpdateFn();
+    return is(updateValue, SQL) ? updateValue : sql.param(updateValue, column);
+  }
+  return sql`null`;
+}
@@ -0,0 +1,90 @@
+import { OPSQLiteWriteLockError } from '../sqlite/errors.js';
+import type { PowerSyncDatabaseLike } from './PowerSyncUpdateNotifications.js';
+
+type WriteLock = <T>(callback: (context: any) => Promise<T>, options?: any) => Promise<T>;
+
+/**
+ * PowerSync's database adapters serialize every write, including `execute`, `writeTransaction` and
+ * uploads of synced data, through their `writeLock`.
+ */
+interface PowerSyncWriteLockAdapter {
+  writeLock: WriteLock;
+}
+
+/**
+ * Tracks when PowerSync holds its write lock, so that the synchronous driver does not write on PowerSync's
+ * write connection between the statements of one of PowerSync's transactions.
+ */
+export class PowerSyncWriteLock {
+  protected held = 0;
+  protected exclusive = 0;
+  protected adapter: PowerSyncWriteLockAdapter;
+  protected originalWriteLock: WriteLock;
+
+  constructor(powersync: PowerSyncDatabaseLike) {
+    const adapter = powersync.database as Partial<PowerSyncWriteLockAdapter>;
+    if (typeof adapter.writeLock !== 'function') {
+      throw new Error('The PowerSync database adapter does not support write locks');
+    }
+
+    this.adapter = adapter as PowerSyncWriteLockAdapter;
+    this.originalWriteLock = adapter.writeLock;
+    const writeLock: WriteLock = adapter.writeLock.bind(adapter);
+    this.adapter.writeLock = (callback, options) =>
+      writeLock(async (context) => {
+        this.held++;
+        try {
+          return await callback(context);
+        } finally {
+          this.held--;
+        }
+      }, options);
+  }
+
+  /**
+   * Whether PowerSync is currently running a callback with its write lock.
+   */
+  get isHeld(): boolean {
+    return this.held > 0;
+  }
+
+  /**
+   * Throws an {@link OPSQLiteWriteLockError} while PowerSync holds the write lock, unless the lock is held
+   * for {@link runExclusive}.
+   */
+  assertUnlocked(query: string): void {
+    if (this.held > 0 && this.exclusive === 0) {
+      throw new OPSQLiteWriteLockError(query);
+    }
+  }
+
+  /**
+   * Waits for PowerSync's write lock and runs the synchronous callback while holding it, so that writes are
+   * deferred instead of failing while PowerSync writes.
+   */
+  runExclusive<T>(callback: () => T, options?: { timeoutMs?: number }): Promise<T> {
+    return this.adapter.writeLock(async () => {
+      this.exclusive++;
+      try {
+        return callback();
+      } finally {
+        this.exclusive--;
+      }
+    }, options);
+  }
+
+  /**
+   * Stops tracking PowerSync's write lock.
+   */
+  detach(): void {
+    this.adapter.writeLock = this.originalWriteLock;
+  }
+}
+
+/**
+ * Tracks PowerSync's write lock. Pass the result as the `writeLock` option of `drizzle()` to fail writes and
+ * transactions with an {@link OPSQLiteWriteLockError} while PowerSync writes on the same connection.
+ */
+export function attachPowerSyncWriteLock(powersync: PowerSyncDatabaseLike): PowerSyncWriteLock {
+  return new PowerSyncWriteLock(powersync);
+}
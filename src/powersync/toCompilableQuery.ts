@@ -0,0 +1,39 @@
+import type { DrizzleQuery } from '../sqlite/OPSQLiteDatabase.js';
+import { toOPSQLiteParams } from '../sqlite/values.js';
+
+/**
+ * Matches PowerSync's `CompiledQuery`.
+ */
+export interface CompiledQuery {
+  readonly sql: string;
+  readonly parameters: ReadonlyArray<unknown>;
+}
+
+/**
+ * Matches PowerSync's `CompilableQuery`, accepted by `watch`, `useQuery` and `useSuspenseQuery`.
+ */
+export interface CompilableQuery<T> {
+  execute(): Promise<T[]>;
+  compile(): CompiledQuery;
+}
+
+/**
+ * Adapts a query of the synchronous driver for PowerSync's reactive APIs. PowerSync watches the tables of the
+ * compiled SQL, and `execute()` runs the query through the synchronous driver, so the same database serves
+ * synchronous reads and PowerSync's watches.
+ *
+ * @example
+ * const { data: lists } = useQuery(toCompilableQuery(db.select().from(listsTable)));
+ */
+export function toCompilableQuery<T>(query: DrizzleQuery<T>): CompilableQuery<T> {
+  return {
+    compile: () => {
+      const { sql, params } = query.toSQL();
+      return { sql, parameters: toOPSQLiteParams(params) };
+    },
+    execute: async () => {
+      const result = await query.execute();
+      return Array.isArray(result) ? result : [result];
+    }
+  };
+}
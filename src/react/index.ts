@@ -0,0 +1,3 @@
+import { type SyncQueryDatabase, useSyncQuery } from './useSyncQuery.js';
+
+export { SyncQueryDatabase, useSyncQuery };
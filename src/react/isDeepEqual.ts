@@ -0,0 +1,47 @@
+/**
+ * Structural equality for query results: primitives, arrays, plain objects, dates and binary values.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+
+  if (a instanceof ArrayBuffer || ArrayBuffer.isView(a)) {
+    if (!(b instanceof ArrayBuffer || ArrayBuffer.isView(b))) {
+      return false;
+    }
+    const left = toBytes(a);
+    const right = toBytes(b);
+    return left.length === right.length && left.every((byte, i) => byte === right[i]);
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+
+  const leftKeys = Object.keys(a);
+  const rightKeys = Object.keys(b);
+  return (
+    leftKeys.length === rightKeys.length &&
+    leftKeys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
@@ -0,0 +1,42 @@
+import { type DependencyList, useMemo, useSyncExternalStore } from 'react';
+import type { OPSQLiteDatabase } from '../sqlite/OPSQLiteDatabase.js';
+import { executeSyncQuery, type SyncQuery } from '../sqlite/watch.js';
+import { isDeepEqual } from './isDeepEqual.js';
+
+export type SyncQueryDatabase = Pick<OPSQLiteDatabase<any>, '$watch'>;
+
+interface SyncQueryStore<T> {
+  subscribe(onStoreChange: () => void): () => void;
+  getSnapshot(): T;
+}
+
+function createSyncQueryStore<T>(db: SyncQueryDatabase, query: () => SyncQuery<T>): SyncQueryStore<T> {
+  let snapshot: { value: T } | undefined;
+
+  return {
+    subscribe: (onStoreChange) =>
+      db.$watch(query(), (result) => {
+        // Keep the previous result when nothing changed, so that consumers can rely on its identity
+        if (snapshot && isDeepEqual(snapshot.value, result)) {
+          return;
+        }
+        snapshot = { value: result };
+        onStoreChange();
+      }),
+    getSnapshot: () => (snapshot ??= { value: executeSyncQuery(query()) }).value
+  };
+}
+
+/**
+ * Runs a query synchronously during the first render and re-renders whenever a committed transaction
+ * changes one of the tables it reads from. The result keeps its identity while it is unchanged.
+ *
+ * The query is rebuilt when `db` or any of `deps` change.
+ *
+ * @example
+ * const lists = useSyncQuery(db, () => db.select().from(lists).where(eq(lists.owner_id, ownerId)), [ownerId]);
+ */
+export function useSyncQuery<T>(db: SyncQueryDatabase, query: () => SyncQuery<T>, deps: DependencyList = []): T {
+  const store = useMemo(() => createSyncQueryStore(db, query), [db, ...deps]);
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
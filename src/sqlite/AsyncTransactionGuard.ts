@@ -0,0 +1,21 @@
+import { OPSQLiteAsyncTransactionError } from './errors.js';
+
+/**
+ * Connections with an open top-level `drizzleAsync()` transaction. The synchronous client checks it before every
+ * statement, because a synchronous query on the same connection would run inside the pending transaction.
+ */
+const openTransactions = new WeakSet<object>();
+
+export function setAsyncTransactionOpen(db: object, isOpen: boolean) {
+  if (isOpen) {
+    openTransactions.add(db);
+  } else {
+    openTransactions.delete(db);
+  }
+}
+
+export function assertNoAsyncTransaction(db: object, query: string) {
+  if (openTransactions.has(db)) {
+    throw new OPSQLiteAsyncTransactionError(query);
+  }
+}
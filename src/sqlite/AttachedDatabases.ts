@@ -0,0 +1,128 @@
+import type { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+
+/**
+ * A database to attach. Clients with an attach API, such as op-sqlite, resolve `name` and `location` the way they
+ * open databases; op-sqlite looks for the file in its default directory or in `location` relative to it. Other
+ * clients attach the file at `location/name`, and a string is the same as `{ name }`.
+ */
+export type AttachedDatabase = string | { name: string; location?: string };
+
+/**
+ * Databases attached to each database file, keyed by the file's path and then by alias, so that they are attached
+ * again when a connection to the same file is opened after the previous one was closed.
+ */
+const attachmentsByFile = new Map<string, Map<string, AttachedDatabase>>();
+
+/**
+ * Databases attached with `$attach`, keyed by alias. Every database is attached to the write connection and to
+ * all read connections, so that selects routed to a reader see the same schemas as writes.
+ */
+export class AttachedDatabases {
+  private attached = new Map<string, AttachedDatabase>();
+  private fileAttachments?: Map<string, AttachedDatabase>;
+
+  constructor(private clients: SyncSQLiteClient[]) {}
+
+  /**
+   * The attached databases, keyed by alias.
+   */
+  get databases(): Record<string, AttachedDatabase> {
+    return Object.fromEntries(this.attached);
+  }
+
+  /**
+   * Attaches the databases previously attached to the same database file, then the given ones, to every
+   * connection that does not have them attached yet. In-memory databases only get the given ones.
+   */
+  restore(attachments: Record<string, AttachedDatabase> = {}): void {
+    const databases = new Map(this.getFileAttachments());
+    Object.entries(attachments).forEach(([alias, database]) => databases.set(alias, database));
+    for (const [alias, database] of databases) {
+      this.attachTo(
+        this.clients.filter((client) => !attachedAliases(client).has(alias.toLowerCase())),
+        alias,
+        database
+      );
+    }
+  }
+
+  /**
+   * Attaches the database to every connection. If one of them fails, the database is detached from the others.
+   */
+  attach(alias: string, database: AttachedDatabase): void {
+    this.attachTo(this.clients, alias, database);
+  }
+
+  detach(alias: string): void {
+    for (const client of this.clients) {
+      detachFrom(client, alias);
+    }
+    this.attached.delete(alias);
+    this.getFileAttachments().delete(alias);
+  }
+
+  private attachTo(clients: SyncSQLiteClient[], alias: string, database: AttachedDatabase): void {
+    const attached: SyncSQLiteClient[] = [];
+    try {
+      for (const client of clients) {
+        if (client.attach) {
+          client.attach(alias, database);
+        } else {
+          client.run(`attach database ? as ${quoteAlias(alias)}`, [databasePath(database)]);
+        }
+        attached.push(client);
+      }
+    } catch (err) {
+      attached.forEach((client) => detachFrom(client, alias));
+      throw err;
+    }
+    this.attached.set(alias, database);
+    this.getFileAttachments().set(alias, database);
+  }
+
+  /**
+   * The attachments recorded for the write connection's database file. In-memory databases get a map of their own,
+   * since another connection never opens the same database.
+   */
+  private getFileAttachments(): Map<string, AttachedDatabase> {
+    if (!this.fileAttachments) {
+      const file = this.clients.length ? mainDatabaseFile(this.clients[0]!) : undefined;
+      this.fileAttachments = (file !== undefined && attachmentsByFile.get(file)) || new Map();
+      if (file !== undefined) {
+        attachmentsByFile.set(file, this.fileAttachments);
+      }
+    }
+    return this.fileAttachments;
+  }
+}
+
+/**
+ * The path of the connection's main database file, or `undefined` for in-memory and temporary databases.
+ */
+function mainDatabaseFile(client: SyncSQLiteClient): string | undefined {
+  const main = client.executeRaw('pragma database_list').find(([, name]) => name === 'main');
+  return main?.[2] ? String(main[2]) : undefined;
+}
+
+function attachedAliases(client: SyncSQLiteClient): Set<string> {
+  return new Set(client.executeRaw('pragma database_list').map(([, name]) => String(name).toLowerCase()));
+}
+
+function detachFrom(client: SyncSQLiteClient, alias: string) {
+  if (client.detach) {
+    client.detach(alias);
+  } else {
+    client.run(`detach database ${quoteAlias(alias)}`);
+  }
+}
+
+function databasePath(database: AttachedDatabase): string {
+  if (typeof database === 'string') {
+    return database;
+  }
+  return database.location ? `${database.location.replace(/\/$/, '')}/${database.name}` : database.name;
+}
+
+function quoteAlias(alias: string): string {
+  return `"${alias.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,49 @@
+import type { ExtractTablesWithRelations } from 'drizzle-orm/relations';
+import { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core/db';
+import { SQLiteAsyncDialect } from 'drizzle-orm/sqlite-core/dialect';
+import type { DrizzleConfig } from 'drizzle-orm/utils';
+import { DB } from '@op-engineering/op-sqlite';
+import { OPSQLiteAsyncSession, type OPSQLiteAsyncTransaction } from './OPSQLiteAsyncSession.js';
+import type { OPSQLiteTransactionConfig } from './OPSQLiteBaseSession.js';
+import type { OPSQLiteRunResult } from './OPSQLitePreparedQuery.js';
+import { resolveDrizzleConfig } from './config.js';
+import { invalidateOnTableUpdates } from '../cache/invalidateOnTableUpdates.js';
+
+export class OPSQLiteAsyncDatabase<
+  TSchema extends Record<string, unknown> = Record<string, never>
+> extends BaseSQLiteDatabase<'async', OPSQLiteRunResult, TSchema> {
+  override transaction<T>(
+    transaction: (tx: OPSQLiteAsyncTransaction<TSchema, ExtractTablesWithRelations<TSchema>>) => Promise<T>,
+    config?: OPSQLiteTransactionConfig
+  ): Promise<T> {
+    return super.transaction(transaction as any, config);
+  }
+}
+
+/**
+ * Creates an asynchronous Drizzle database on an op-sqlite connection. Queries return promises and run
+ * through op-sqlite's async API, while results are mapped exactly like the synchronous {@link drizzle} driver,
+ * so both can be used side by side on the same connection.
+ */
+export function drizzleAsync<TSchema extends Record<string, unknown> = Record<string, never>>(
+  client: DB,
+  config: DrizzleConfig<TSchema> = {}
+): OPSQLiteAsyncDatabase<TSchema> & {
+  $client: DB;
+} {
+  const dialect = new SQLiteAsyncDialect({ casing: config.casing });
+  const { logger, schema } = resolveDrizzleConfig(config);
+
+  if (config.cache) {
+    invalidateOnTableUpdates(client, config.cache);
+  }
+  const session = new OPSQLiteAsyncSession(client, dialect, schema, { logger, cache: config.cache });
+  const db = new OPSQLiteAsyncDatabase('async', dialect, session, schema) as OPSQLiteAsyncDatabase<TSchema>;
+  (<any>db).$client = client;
+  (<any>db).$cache = config.cache;
+  if ((<any>db).$cache) {
+    (<any>db).$cache['invalidate'] = config.cache?.onMutate;
+  }
+
+  return db as any;
+}
@@ -0,0 +1,115 @@
+import { DB, Scalar } from '@op-engineering/op-sqlite';
+import type { Cache } from 'drizzle-orm/cache/core';
+import type { WithCacheConfig } from 'drizzle-orm/cache/core/types';
+import { entityKind } from 'drizzle-orm/entity';
+import type { Logger } from 'drizzle-orm/logger';
+import { fillPlaceholders, type Query } from 'drizzle-orm/sql/sql';
+import type { SelectedFieldsOrdered } from 'drizzle-orm/sqlite-core/query-builders/select.types';
+import {
+  type PreparedQueryConfig as PreparedQueryConfigBase,
+  type SQLiteExecuteMethod,
+  SQLitePreparedQuery
+} from 'drizzle-orm/sqlite-core/session';
+import { mapResultRow, type OPSQLiteRunResult } from './OPSQLitePreparedQuery.js';
+import { mapColumnValue, toOPSQLiteParams } from './values.js';
+
+type PreparedQueryConfig = Omit<PreparedQueryConfigBase, 'statement' | 'run'>;
+
+/**
+ * Asynchronous counterpart of {@link OPSQLitePreparedQuery}, executing through op-sqlite's `execute` and
+ * `executeRaw` so that queries run off the JS thread. Results are mapped with the same {@link mapResultRow}.
+ */
+export class OPSQLiteAsyncPreparedQuery<
+  T extends PreparedQueryConfig = PreparedQueryConfig
+> extends SQLitePreparedQuery<{
+  type: 'async';
+  run: OPSQLiteRunResult;
+  all: T['all'];
+  get: T['get'];
+  values: T['values'];
+  execute: T['execute'];
+}> {
+  static readonly [entityKind]: string = 'OPSQLiteAsyncPreparedQuery';
+
+  constructor(
+    private db: DB,
+    query: Query,
+    private logger: Logger,
+    private fields: SelectedFieldsOrdered | undefined,
+    executeMethod: SQLiteExecuteMethod,
+    private _isResponseInArrayMode: boolean,
+    private customResultMapper?: (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown,
+    cache?: Cache,
+    queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] },
+    cacheConfig?: WithCacheConfig
+  ) {
+    super('async', executeMethod, query, cache, queryMetadata, cacheConfig);
+  }
+
+  /**
+   * Runs the query through drizzle's `queryWithCache`, which consults and invalidates the configured cache.
+   */
+  private executeWithCache<TResult>(params: Scalar[], query: () => Promise<TResult>): Promise<TResult> {
+    return (this as any).queryWithCache(this.query.sql, params, query);
+  }
+
+  async run(placeholderValues?: Record<string, unknown>): Promise<OPSQLiteRunResult> {
+    const params = toOPSQLiteParams(fillPlaceholders(this.query.params, placeholderValues ?? {}));
+    this.logger.logQuery(this.query.sql, params);
+    const { rowsAffected, insertId } = await this.executeWithCache(params, () =>
+      this.db.execute(this.query.sql, params)
+    );
+    return { changes: rowsAffected, lastInsertRowid: insertId ?? 0 };
+  }
+
+  async all(placeholderValues?: Record<string, unknown>): Promise<T['all']> {
+    const { fields, query, logger, customResultMapper } = this;
+    if (!fields && !customResultMapper) {
+      const params = toOPSQLiteParams(fillPlaceholders(query.params, placeholderValues ?? {}));
+      logger.logQuery(query.sql, params);
+      const rs = await this.executeWithCache(params, () => this.db.execute(query.sql, params));
+      return rs.rows ?? [];
+    }
+
+    const rows = (await this.values(placeholderValues)) as unknown[][];
+
+    if (customResultMapper) {
+      return customResultMapper(rows, mapColumnValue) as T['all'];
+    }
+    return rows.map((row) => mapResultRow(fields!, row, (this as any).joinsNotNullableMap));
+  }
+
+  async get(placeholderValues?: Record<string, unknown>): Promise<T['get']> {
+    const { fields, query, logger, customResultMapper } = this;
+    if (!fields && !customResultMapper) {
+      const params = toOPSQLiteParams(fillPlaceholders(query.params, placeholderValues ?? {}));
+      logger.logQuery(query.sql, params);
+      const rs = await this.executeWithCache(params, () => this.db.execute(query.sql, params));
+      return rs.rows?.[0];
+    }
+
+    const rows = (await this.values(placeholderValues)) as unknown[][];
+    const row = rows[0];
+
+    if (!row) {
+      return undefined;
+    }
+
+    if (customResultMapper) {
+      return customResultMapper(rows, mapColumnValue) as T['get'];
+    }
+
+    return mapResultRow(fields!, row, (this as any).joinsNotNullableMap);
+  }
+
+  async values(placeholderValues?: Record<string, unknown>): Promise<T['values']> {
+    const params = toOPSQLiteParams(fillPlaceholders(this.query.params, placeholderValues ?? {}));
+    this.logger.logQuery(this.query.sql, params);
+
+    return this.executeWithCache(params, () => this.db.executeRaw(this.query.sql, params));
+  }
+
+  isResponseInArrayMode(): boolean {
+    return this._isResponseInArrayMode;
+  }
+}
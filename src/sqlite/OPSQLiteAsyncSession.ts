@@ -0,0 +1,148 @@
+import { DB } from '@op-engineering/op-sqlite';
+import type { WithCacheConfig } from 'drizzle-orm/cache/core/types';
+import { entityKind } from 'drizzle-orm/entity';
+import type { Logger } from 'drizzle-orm/logger';
+import { NoopLogger } from 'drizzle-orm/logger';
+import type { RelationalSchemaConfig, TablesRelationalConfig } from 'drizzle-orm/relations';
+import { type Query } from 'drizzle-orm/sql/sql';
+import type { SQLiteAsyncDialect } from 'drizzle-orm/sqlite-core/dialect';
+import type { SelectedFieldsOrdered } from 'drizzle-orm/sqlite-core/query-builders/select.types';
+import {
+  type PreparedQueryConfig as PreparedQueryConfigBase,
+  type SQLiteExecuteMethod,
+  SQLiteSession,
+  SQLiteTransaction
+} from 'drizzle-orm/sqlite-core/session';
+import type { OpSQLiteSessionOptions, OPSQLiteTransactionConfig } from './OPSQLiteBaseSession.js';
+import { OPSQLiteAsyncPreparedQuery } from './OPSQLiteAsyncPreparedQuery.js';
+import type { OPSQLiteRunResult } from './OPSQLitePreparedQuery.js';
+import { setAsyncTransactionOpen } from './AsyncTransactionGuard.js';
+import { TransactionScope } from './TransactionScope.js';
+
+export class OPSQLiteAsyncTransaction<
+  TFullSchema extends Record<string, unknown>,
+  TSchema extends TablesRelationalConfig
+> extends SQLiteTransaction<'async', OPSQLiteRunResult, TFullSchema, TSchema> {
+  static readonly [entityKind]: string = 'OPSQLiteAsyncTransaction';
+
+  override transaction<T>(
+    transaction: (tx: OPSQLiteAsyncTransaction<TFullSchema, TSchema>) => Promise<T>,
+    config?: OPSQLiteTransactionConfig
+  ): Promise<T> {
+    return super.transaction(transaction as any, config);
+  }
+}
+
+/**
+ * Asynchronous counterpart of {@link OPSQLiteBaseSession}, with the same savepoint-based nesting and
+ * read-only enforcement. Top-level transactions are queued so that they do not interleave on the connection.
+ */
+export class OPSQLiteAsyncSession<
+  TFullSchema extends Record<string, unknown>,
+  TSchema extends TablesRelationalConfig
+> extends SQLiteSession<'async', OPSQLiteRunResult, TFullSchema, TSchema> {
+  static readonly [entityKind]: string = 'OPSQLiteAsyncSession';
+
+  protected logger: Logger;
+  protected transactionQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly db: DB,
+    protected dialect: SQLiteAsyncDialect,
+    protected schema: RelationalSchemaConfig<TSchema> | undefined,
+    protected options: Omit<OpSQLiteSessionOptions, 'statementCache'> = {},
+    protected nestedIndex = 0
+  ) {
+    super(dialect);
+    this.logger = options.logger ?? new NoopLogger();
+  }
+
+  prepareQuery<T extends PreparedQueryConfigBase & { type: 'async' }>(
+    query: Query,
+    fields: SelectedFieldsOrdered | undefined,
+    executeMethod: SQLiteExecuteMethod,
+    isResponseInArrayMode: boolean,
+    customResultMapper?: (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown,
+    queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] },
+    cacheConfig?: WithCacheConfig
+  ): OPSQLiteAsyncPreparedQuery<T> {
+    return new OPSQLiteAsyncPreparedQuery(
+      this.db,
+      query,
+      this.logger,
+      fields,
+      executeMethod,
+      isResponseInArrayMode,
+      customResultMapper,
+      this.options.cache,
+      queryMetadata,
+      this.nestedIndex > 0 ? { enable: false } : cacheConfig
+    );
+  }
+
+  /**
+   * Runs the callback in a transaction, nesting through savepoints like the synchronous session. Queries
+   * issued on `db` while a transaction is pending are not isolated from it, so use `tx` inside the callback.
+   * The synchronous driver refuses to run queries on the same connection until the transaction has ended.
+   */
+  transaction<T>(
+    transaction: (tx: OPSQLiteAsyncTransaction<TFullSchema, TSchema>) => Promise<T>,
+    config: OPSQLiteTransactionConfig = {}
+  ): Promise<T> {
+    const tx = new OPSQLiteAsyncTransaction<TFullSchema, TSchema>(
+      'async',
+      this.dialect,
+      new OPSQLiteAsyncSession(this.db, this.dialect, this.schema, this.options, this.nestedIndex + 1),
+      this.schema,
+      this.nestedIndex + 1
+    );
+    const scope = new TransactionScope(this.nestedIndex, config);
+
+    if (scope.isNested) {
+      return this.runInScope(scope, () => transaction(tx));
+    }
+
+    const result = this.transactionQueue.then(async () => {
+      setAsyncTransactionOpen(this.db, true);
+      try {
+        return await this.runInScope(scope, () => transaction(tx));
+      } finally {
+        setAsyncTransactionOpen(this.db, false);
+      }
+    });
+    this.transactionQueue = result.catch(() => {});
+    return result;
+  }
+
+  private async runInScope<T>(scope: TransactionScope, callback: () => Promise<T>): Promise<T> {
+    await this.db.execute(scope.begin);
+    try {
+      const result = await this.withAccessMode(scope, callback);
+      for (const statement of scope.commit) {
+        await this.db.execute(statement);
+      }
+      return result;
+    } catch (err) {
+      for (const statement of scope.rollback) {
+        await this.db.execute(statement);
+      }
+      throw err;
+    }
+  }
+
+  private async withAccessMode<T>(scope: TransactionScope, callback: () => Promise<T>): Promise<T> {
+    if (!scope.isReadOnly) {
+      return callback();
+    }
+
+    const [[previous]] = await this.db.executeRaw(TransactionScope.readQueryOnly);
+    await this.db.execute(TransactionScope.enableQueryOnly);
+    try {
+      return await callback();
+    } catch (err) {
+      throw TransactionScope.mapReadOnlyError(err);
+    } finally {
+      await this.db.execute(TransactionScope.restoreQueryOnly(previous));
+    }
+  }
+}
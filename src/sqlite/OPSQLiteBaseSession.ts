@@ -1,9 +1,13 @@
-import { entityKind } from 'drizzle-orm/entity';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { Cache } from 'drizzle-orm/cache/core';
+import type { WithCacheConfig } from 'drizzle-orm/cache/core/types';
+import { entityKind, is } from 'drizzle-orm/entity';
 import type { Logger } from 'drizzle-orm/logger';
 import { NoopLogger } from 'drizzle-orm/logger';
 import type { RelationalSchemaConfig, TablesRelationalConfig } from 'drizzle-orm/relations';
 import { type Query } from 'drizzle-orm/sql/sql';
 import type { SQLiteSyncDialect } from 'drizzle-orm/sqlite-core/dialect';
+import type { SQLiteInsertBuilder } from 'drizzle-orm/sqlite-core/query-builders';
 import type { SelectedFieldsOrdered } from 'drizzle-orm/sqlite-core/query-builders/select.types';
 import {
   type PreparedQueryConfig as PreparedQueryConfigBase,
@@ -12,39 +16,140 @@ import {
   SQLiteTransaction,
   type SQLiteTransactionConfig
 } from 'drizzle-orm/sqlite-core/session';
-import { DB, QueryResult } from '@op-engineering/op-sqlite';
-import { OPSQLitePreparedQuery } from './OPSQLitePreparedQuery.js';
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core/table';
+import { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+import { OPSQLitePreparedQuery, type OPSQLiteRunResult } from './OPSQLitePreparedQuery.js';
+import { OPSQLiteScriptError } from './errors.js';
+import { splitStatements } from './script.js';
+import type { StatementCache } from './StatementCache.js';
+import type { RetryPolicy } from './RetryPolicy.js';
+import type { QueryInstrumentation } from './QueryInstrumentation.js';
+import type { ReaderPool } from './ReaderPool.js';
+import { AttachedDatabases } from './AttachedDatabases.js';
+import { TransactionCallbacks } from './TransactionCallbacks.js';
+import { TransactionScope } from './TransactionScope.js';
+import type { PowerSyncWriteLock } from '../powersync/PowerSyncWriteLock.js';
+import { PowerSyncViewDialect, recordConflictConfigs } from '../powersync/PowerSyncViewDialect.js';
 export interface OpSQLiteSessionOptions {
   logger?: Logger;
+  /**
+   * Prepared statements shared by the session and its transactions.
+   */
+  statementCache?: StatementCache;
+  /**
+   * Query result cache. Selects inside transactions bypass it, so that uncommitted rows are never cached.
+   */
+  cache?: Cache;
+  /**
+   * Retries statements and `begin` when the database is locked by another connection.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Reports the duration and row count of every statement.
+   */
+  instrumentation?: QueryInstrumentation;
+  /**
+   * Read connections for selects and relational queries outside of transactions. Everything else runs on
+   * the session's client.
+   */
+  readers?: ReaderPool;
+  /**
+   * Fails writes and the start of transactions while PowerSync holds its write lock.
+   */
+  writeLock?: PowerSyncWriteLock;
+  /**
+   * Databases attached to the client and the read connections. Defaults to tracking attachments of the client only.
+   */
+  attachedDatabases?: AttachedDatabases;
+  /**
+   * Receives errors thrown by `afterCommit` and `afterRollback` callbacks. Defaults to `console.error`.
+   */
+  onCallbackError?: (error: unknown) => void;
 }
 
 export type OPSQLiteTransactionConfig = SQLiteTransactionConfig & {
+  /**
+   * Read-only transactions are enforced with `PRAGMA query_only`, so any write inside the
+   * transaction fails with an {@link OPSQLiteReadOnlyTransactionError}.
+   */
   accessMode?: 'read only' | 'read write';
 };
 
+export interface OPSQLiteScriptConfig {
+  /**
+   * Runs the whole script in a transaction, so that it is applied completely or not at all. Defaults to `false`.
+   */
+  transaction?: boolean;
+}
+
 export class OPSQLiteTransaction<
   TFullSchema extends Record<string, unknown>,
   TSchema extends TablesRelationalConfig
-> extends SQLiteTransaction<'sync', QueryResult, TFullSchema, TSchema> {
+> extends SQLiteTransaction<'sync', OPSQLiteRunResult, TFullSchema, TSchema> {
   static readonly [entityKind]: string = 'OPSQLiteTransaction';
+
+  constructor(
+    resultType: 'sync',
+    dialect: SQLiteSyncDialect,
+    session: SQLiteSession<'sync', OPSQLiteRunResult, TFullSchema, TSchema>,
+    schema: RelationalSchemaConfig<TSchema> | undefined,
+    nestedIndex: number,
+    private readonly callbacks: TransactionCallbacks
+  ) {
+    super(resultType, dialect, session, schema, nestedIndex);
+  }
+
+  /**
+   * Runs the callback once the outermost transaction has committed. It is discarded if this transaction
+   * or an enclosing one is rolled back.
+   */
+  afterCommit(callback: () => void): void {
+    this.callbacks.afterCommit.push(callback);
+  }
+
+  /**
+   * Runs the callback once this transaction has been rolled back, either on its own as a nested transaction
+   * or together with an enclosing transaction.
+   */
+  afterRollback(callback: () => void): void {
+    this.callbacks.afterRollback.push(callback);
+  }
+
+  override transaction<T>(
+    transaction: (tx: OPSQLiteTransaction<TFullSchema, TSchema>) => T,
+    config?: OPSQLiteTransactionConfig
+  ): T {
+    return super.transaction(transaction as any, config);
+  }
+
+  override insert<TTable extends SQLiteTable>(into: TTable): SQLiteInsertBuilder<TTable, 'sync', OPSQLiteRunResult> {
+    const builder = super.insert(into);
+    return is((<any>this).dialect, PowerSyncViewDialect) ? recordConflictConfigs(builder) : builder;
+  }
 }
 
 export class OPSQLiteBaseSession<
   TFullSchema extends Record<string, unknown>,
   TSchema extends TablesRelationalConfig
-> extends SQLiteSession<'sync', QueryResult, TFullSchema, TSchema> {
+> extends SQLiteSession<'sync', OPSQLiteRunResult, TFullSchema, TSchema> {
   static readonly [entityKind]: string = 'OPSQLiteBaseSession';
 
   protected logger: Logger;
+  readonly attachedDatabases: AttachedDatabases;
+  protected onCallbackError: (error: unknown) => void;
 
   constructor(
-    protected db: DB,
+    readonly client: SyncSQLiteClient,
     protected dialect: SQLiteSyncDialect,
     protected schema: RelationalSchemaConfig<TSchema> | undefined,
-    protected options: OpSQLiteSessionOptions = {}
+    protected options: OpSQLiteSessionOptions = {},
+    protected nestedIndex = 0,
+    protected callbacks = new TransactionCallbacks()
   ) {
     super(dialect);
     this.logger = options.logger ?? new NoopLogger();
+    this.attachedDatabases = options.attachedDatabases ?? new AttachedDatabases([client]);
+    this.onCallbackError = options.onCallbackError ?? ((error) => console.error(error));
   }
 
   prepareQuery<T extends PreparedQueryConfigBase & { type: 'sync' }>(
@@ -52,23 +157,146 @@ export class OPSQLiteBaseSession<
     fields: SelectedFieldsOrdered | undefined,
     executeMethod: SQLiteExecuteMethod,
     isResponseInArrayMode: boolean,
-    customResultMapper?: (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown
+    customResultMapper?: (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown,
+    queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] },
+    cacheConfig?: WithCacheConfig
   ): OPSQLitePreparedQuery<T> {
+    // Relational queries are always reads, but are prepared without query metadata
+    const isRead = queryMetadata ? queryMetadata.type === 'select' : customResultMapper !== undefined;
+    // Raw SQL is only treated as a write when it is executed with `run()`
+    const isWrite = queryMetadata ? queryMetadata.type !== 'select' : !customResultMapper && executeMethod === 'run';
     return new OPSQLitePreparedQuery(
-      this.db,
+      this.client,
       query,
       this.logger,
       fields,
       executeMethod,
       isResponseInArrayMode,
-      customResultMapper
+      customResultMapper,
+      this.options.statementCache,
+      this.options.cache,
+      queryMetadata,
+      this.nestedIndex > 0 ? { enable: false } : cacheConfig,
+      this.options.retryPolicy,
+      this.options.instrumentation,
+      isRead && this.nestedIndex === 0 ? this.options.readers : undefined,
+      isWrite && this.nestedIndex === 0 ? this.options.writeLock : undefined
     );
   }
 
+  /**
+   * Runs the callback in a transaction. The outermost transaction uses `begin`/`commit`/`rollback`,
+   * nested transactions use savepoints so that only the inner scope is rolled back when its callback throws.
+   * `afterCommit` callbacks of nested transactions run after the outermost `commit`.
+   */
   transaction<T>(
-    _transaction: (tx: OPSQLiteTransaction<TFullSchema, TSchema>) => T,
-    _config: OPSQLiteTransactionConfig = {}
+    transaction: (tx: OPSQLiteTransaction<TFullSchema, TSchema>) => T,
+    config: OPSQLiteTransactionConfig = {}
   ): T {
-    throw new Error('Nested transactions are not supported');
+    const callbacks = new TransactionCallbacks();
+    const tx = new OPSQLiteTransaction<TFullSchema, TSchema>(
+      'sync',
+      this.dialect,
+      new OPSQLiteBaseSession(this.client, this.dialect, this.schema, this.options, this.nestedIndex + 1, callbacks),
+      this.schema,
+      this.nestedIndex + 1,
+      callbacks
+    );
+
+    const scope = new TransactionScope(this.nestedIndex, config);
+    if (scope.isNested) {
+      this.client.run(scope.begin);
+      try {
+        const result = this.withAccessMode(scope, () => transaction(tx));
+        scope.commit.forEach((statement) => this.client.run(statement));
+        callbacks.moveTo(this.callbacks);
+        return result;
+      } catch (err) {
+        scope.rollback.forEach((statement) => this.client.run(statement));
+        callbacks.runAfterRollback(this.onCallbackError);
+        throw err;
+      }
+    }
+
+    this.options.writeLock?.assertUnlocked(scope.begin);
+    if (this.options.retryPolicy) {
+      this.options.retryPolicy.run(scope.begin, () => this.client.run(scope.begin));
+    } else {
+      this.client.run(scope.begin);
+    }
+    let result: T;
+    try {
+      result = this.withAccessMode(scope, () => transaction(tx));
+      scope.commit.forEach((statement) => this.client.run(statement));
+    } catch (err) {
+      scope.rollback.forEach((statement) => this.client.run(statement));
+      callbacks.runAfterRollback(this.onCallbackError);
+      throw err;
+    }
+    callbacks.runAfterCommit(this.onCallbackError);
+    return result;
+  }
+
+  /**
+   * Runs the queries in order inside a single transaction, so that either all of them are applied or none are.
+   */
+  batch<T extends BatchItem<'sqlite'>[] | readonly BatchItem<'sqlite'>[]>(queries: T): unknown[] {
+    return this.transaction((tx) => {
+      // The queries were prepared by the session that created them. They are prepared again by the transaction's
+      // session, so that they run on the writer and bypass the query cache like any other query in a transaction.
+      const session: OPSQLiteBaseSession<TFullSchema, TSchema> = (<any>tx).session;
+      return queries.map((query) => {
+        const preparedQuery = (query as unknown as { _prepare(): OPSQLitePreparedQuery })._prepare();
+        return preparedQuery.prepareIn(session).execute().sync();
+      });
+    });
+  }
+
+  /**
+   * Splits the script into statements and runs them in order, optionally inside a transaction.
+   * A failing statement is reported with an {@link OPSQLiteScriptError}.
+   */
+  executeScript(script: string, config: OPSQLiteScriptConfig = {}): void {
+    const statements = splitStatements(script);
+    const run = () => {
+      for (const statement of statements) {
+        try {
+          this.options.writeLock?.assertUnlocked(statement.sql);
+          this.logger.logQuery(statement.sql, []);
+          if (this.options.retryPolicy) {
+            this.options.retryPolicy.run(statement.sql, () => this.client.run(statement.sql));
+          } else {
+            this.client.run(statement.sql);
+          }
+        } catch (err) {
+          throw new OPSQLiteScriptError(statement, err);
+        }
+      }
+    };
+
+    if (config.transaction) {
+      this.transaction(run);
+    } else {
+      run();
+    }
+  }
+
+  /**
+   * Enables `query_only` for the duration of a read-only transaction and restores the previous value afterwards.
+   */
+  private withAccessMode<T>(scope: TransactionScope, callback: () => T): T {
+    if (!scope.isReadOnly) {
+      return callback();
+    }
+
+    const [[previous]] = this.client.executeRaw(TransactionScope.readQueryOnly);
+    this.client.run(TransactionScope.enableQueryOnly);
+    try {
+      return callback();
+    } catch (err) {
+      throw TransactionScope.mapReadOnlyError(err);
+    } finally {
+      this.client.run(TransactionScope.restoreQueryOnly(previous));
+    }
   }
 }
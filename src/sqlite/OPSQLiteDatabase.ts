@@ -1,50 +1,276 @@
 import { Query } from 'drizzle-orm';
-import { DefaultLogger } from 'drizzle-orm/logger';
-import {
-  createTableRelationsHelpers,
-  extractTablesRelationalConfig,
-  type RelationalSchemaConfig,
-  type TablesRelationalConfig
-} from 'drizzle-orm/relations';
+import type { BatchItem, BatchResponse } from 'drizzle-orm/batch';
+import { NoopCache } from 'drizzle-orm/cache/core';
+import { is } from 'drizzle-orm/entity';
+import { DrizzleError } from 'drizzle-orm/errors';
+import { NoopLogger } from 'drizzle-orm/logger';
+import type { ExtractTablesWithRelations } from 'drizzle-orm/relations';
 import { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core/db';
 import { SQLiteSyncDialect } from 'drizzle-orm/sqlite-core/dialect';
+import type { SQLiteInsertBuilder } from 'drizzle-orm/sqlite-core/query-builders';
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core/table';
 import type { DrizzleConfig } from 'drizzle-orm/utils';
 import { OPSQLiteSession } from './OPSQLiteSession.js';
-import { DB, QueryResult } from '@op-engineering/op-sqlite';
+import {
+  OPSQLiteBaseSession,
+  type OPSQLiteScriptConfig,
+  type OPSQLiteTransaction,
+  type OPSQLiteTransactionConfig
+} from './OPSQLiteBaseSession.js';
+import { type SyncQuery, watchQuery, type WatchOptions } from './watch.js';
+import { StatementCache } from './StatementCache.js';
+import { type RetryConfig, RetryPolicy } from './RetryPolicy.js';
+import { type InstrumentationConfig, QueryInstrumentation } from './QueryInstrumentation.js';
+import { ReaderPool, type ReaderSelection } from './ReaderPool.js';
+import { type AttachedDatabase, AttachedDatabases } from './AttachedDatabases.js';
+import type { OPSQLiteRunResult } from './OPSQLitePreparedQuery.js';
+import { resolveDrizzleConfig } from './config.js';
+import { DB } from '@op-engineering/op-sqlite';
+import { createOPSQLiteClient, isOPSQLiteDB } from '../clients/OPSQLiteClient.js';
+import { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+import { isSyncCache } from '../cache/SyncCache.js';
+import { invalidateOnTableUpdates } from '../cache/invalidateOnTableUpdates.js';
+import type { PowerSyncWriteLock } from '../powersync/PowerSyncWriteLock.js';
+import {
+  type PowerSyncSchemaLike,
+  PowerSyncViewDialect,
+  recordConflictConfigs
+} from '../powersync/PowerSyncViewDialect.js';
 
 export type DrizzleQuery<T> = { toSQL(): Query; execute(): Promise<T | T[]> };
 
+export type OPSQLiteDrizzleConfig<TSchema extends Record<string, unknown> = Record<string, never>> =
+  DrizzleConfig<TSchema> & {
+    /**
+     * Maximum number of prepared statements kept per connection, keyed by SQL. Set to `0` to disable.
+     * Defaults to 100.
+     *
+     * Only clients implementing `prepare`, such as the `node:sqlite` and better-sqlite3 adapters, cache statements.
+     * op-sqlite 15 only executes prepared statements asynchronously, so queries on op-sqlite connections are
+     * compiled from SQL on every execution, and setting a size for them throws.
+     */
+    statementCacheSize?: number;
+    /**
+     * Retries statements and the start of transactions that fail because another connection, such as
+     * PowerSync's, holds a lock on the database. `true` uses the default {@link RetryConfig}.
+     */
+    retry?: boolean | RetryConfig;
+    /**
+     * Reports the duration, row count and method of every statement to the logger's `logQueryReport`,
+     * flagging statements slower than the threshold. `true` uses the default {@link InstrumentationConfig}.
+     */
+    instrumentation?: boolean | InstrumentationConfig;
+    /**
+     * PowerSync's write lock, from {@link attachPowerSyncWriteLock}. Writes and transactions fail with an
+     * {@link OPSQLiteWriteLockError} while PowerSync holds it, instead of interleaving with PowerSync's transaction.
+     */
+    writeLock?: PowerSyncWriteLock;
+    /**
+     * Databases to attach to every connection when the database is created, keyed by alias, in addition to the
+     * ones restored automatically. Use it for in-memory databases, whose attachments cannot be restored.
+     */
+    attachments?: Record<string, AttachedDatabase>;
+    /**
+     * Receives errors thrown by `afterCommit` and `afterRollback` callbacks. They never fail the transaction:
+     * `afterCommit` callbacks run once the changes are committed, and after a rollback the transaction's own
+     * error is thrown. Defaults to `console.error`.
+     */
+    onCallbackError?: (error: unknown) => void;
+  } & OPSQLiteViewConfig;
+
+export interface OPSQLiteViewConfig {
+  /**
+   * The PowerSync schema, such as a `DrizzleAppSchema`. Its tables are views with INSTEAD OF triggers, so upserts
+   * and `returning()` on them are emulated with several statements that re-select the affected rows by `id`.
+   */
+  powerSyncViews?: PowerSyncSchemaLike;
+}
+
+/**
+ * A write connection and read connections to the same database, such as PowerSync's connections.
+ */
+export interface OPSQLiteConnections<TClient extends DB | SyncSQLiteClient = DB> {
+  writer: TClient;
+  readers: TClient[];
+  /**
+   * How a reader is picked for each select. Defaults to `round-robin`.
+   */
+  readerSelection?: ReaderSelection;
+}
+
+function isConnections<TClient extends DB | SyncSQLiteClient>(
+  client: TClient | OPSQLiteConnections<TClient>
+): client is OPSQLiteConnections<TClient> {
+  const candidate = client as Partial<OPSQLiteConnections<TClient>>;
+  return typeof candidate.writer === 'object' && Array.isArray(candidate.readers);
+}
+
+function createDialect(config: DrizzleConfig<Record<string, unknown>> & OPSQLiteViewConfig): SQLiteSyncDialect {
+  return config.powerSyncViews
+    ? new PowerSyncViewDialect(config.powerSyncViews, { casing: config.casing })
+    : new SQLiteSyncDialect({ casing: config.casing });
+}
+
+function toSyncClient(client: DB | SyncSQLiteClient): SyncSQLiteClient {
+  return isOPSQLiteDB(client) ? createOPSQLiteClient(client) : client;
+}
+
 export class OPSQLiteDatabase<
   TSchema extends Record<string, unknown> = Record<string, never>
-> extends BaseSQLiteDatabase<'sync', QueryResult, TSchema> {}
+> extends BaseSQLiteDatabase<'sync', OPSQLiteRunResult, TSchema> {
+  override transaction<T>(
+    transaction: (tx: OPSQLiteTransaction<TSchema, ExtractTablesWithRelations<TSchema>>) => T,
+    config?: OPSQLiteTransactionConfig
+  ): T {
+    return super.transaction(transaction as any, config);
+  }
+
+  override insert<TTable extends SQLiteTable>(into: TTable): SQLiteInsertBuilder<TTable, 'sync', OPSQLiteRunResult> {
+    const builder = super.insert(into);
+    return is((<any>this).dialect, PowerSyncViewDialect) ? recordConflictConfigs(builder) : builder;
+  }
 
-export function drizzle<TSchema extends Record<string, unknown> = Record<string, never>>(
-  client: DB,
-  config: DrizzleConfig<TSchema> = {}
+  /**
+   * Runs the queries in a single transaction and returns their results as a tuple: rows for selects and
+   * `returning()` queries, run results for other writes. If any query fails, none of them are applied.
+   */
+  batch<U extends BatchItem<'sqlite'>, T extends Readonly<[U, ...U[]]>>(batch: T): BatchResponse<T> {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    return session.batch(batch) as BatchResponse<T>;
+  }
+
+  /**
+   * Runs a script of several statements, such as a seed file or the setup of full-text search tables. Semicolons in
+   * string literals, comments and trigger bodies do not end a statement. If a statement fails, an
+   * {@link OPSQLiteScriptError} reports its index and position in the script.
+   */
+  $executeScript(script: string, config?: OPSQLiteScriptConfig): void {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    session.executeScript(script, config);
+  }
+
+  /**
+   * Attaches the SQLite database under `alias` to the write connection and every read connection, with op-sqlite's
+   * `attach` on op-sqlite connections. Define its tables with {@link attachedSchema} to query them together with the
+   * main database. Databases cannot be attached inside a transaction.
+   *
+   * Attachments are recorded for the write connection's database file. When a connection to the same file is
+   * closed and reopened, they are attached again by the database created for the new connection.
+   */
+  $attach(alias: string, database: AttachedDatabase): void {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    session.attachedDatabases.attach(alias, database);
+  }
+
+  /**
+   * Detaches the database attached under `alias` from every connection.
+   */
+  $detach(alias: string): void {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    session.attachedDatabases.detach(alias);
+  }
+
+  /**
+   * The attached databases, keyed by alias.
+   */
+  get $attachments(): Record<string, AttachedDatabase> {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    return session.attachedDatabases.databases;
+  }
+
+  /**
+   * Runs the query synchronously and calls `callback` with the result, then re-runs it whenever a
+   * committed transaction changes one of the tables the query reads from.
+   *
+   * @returns A function that stops watching.
+   */
+  $watch<T>(query: SyncQuery<T>, callback: (result: T) => void, options?: WatchOptions): () => void {
+    const session = (<any>this).session as OPSQLiteBaseSession<TSchema, ExtractTablesWithRelations<TSchema>>;
+    return watchQuery(session.client, query, callback, options);
+  }
+}
+
+/**
+ * Creates a synchronous Drizzle database. `client` is either an op-sqlite connection, which is adapted
+ * automatically, or any {@link SyncSQLiteClient} such as the `node:sqlite` and better-sqlite3 adapters.
+ *
+ * A `cache` must implement {@link SyncCache}, such as {@link memoryCache}, because queries cannot await it.
+ *
+ * Pass `{ writer, readers }` to route selects and relational queries outside of transactions to the read
+ * connections. Writes, `returning()` queries, raw SQL and transactions use the writer, which is `$client`.
+ */
+export function drizzle<
+  TSchema extends Record<string, unknown> = Record<string, never>,
+  TClient extends DB | SyncSQLiteClient = DB
+>(
+  client: TClient | OPSQLiteConnections<TClient>,
+  config: OPSQLiteDrizzleConfig<TSchema> = {}
 ): OPSQLiteDatabase<TSchema> & {
-  $client: DB;
+  $client: TClient;
 } {
-  const dialect = new SQLiteSyncDialect({ casing: config.casing });
-  let logger;
-  if (config.logger === true) {
-    logger = new DefaultLogger();
-  } else if (config.logger !== false) {
-    logger = config.logger;
-  }
+  const dialect = createDialect(config);
+  const { logger, schema } = resolveDrizzleConfig(config);
 
-  let schema: RelationalSchemaConfig<TablesRelationalConfig> | undefined;
-  if (config.schema) {
-    const tablesConfig = extractTablesRelationalConfig(config.schema, createTableRelationsHelpers);
-    schema = {
-      fullSchema: config.schema,
-      schema: tablesConfig.tables,
-      tableNamesMap: tablesConfig.tableNamesMap
-    };
+  const cache = config.cache;
+  if (cache && !is(cache, NoopCache) && !isSyncCache(cache)) {
+    throw new DrizzleError({
+      message: 'The synchronous driver requires a cache that implements SyncCache, such as memoryCache()'
+    });
   }
 
-  const session = new OPSQLiteSession(client, dialect, schema, { logger });
+  const writer = isConnections(client) ? client.writer : client;
+  const syncClient = toSyncClient(writer);
+  if (cache && syncClient.updateHooks) {
+    invalidateOnTableUpdates(syncClient.updateHooks, cache);
+  }
+  const readerClients = isConnections(client) ? client.readers.map((reader) => toSyncClient(reader)) : undefined;
+  if (config.statementCacheSize && [syncClient, ...(readerClients ?? [])].some((connection) => !connection.prepare)) {
+    throw new DrizzleError({
+      message:
+        'statementCacheSize requires clients with synchronous prepared statements. op-sqlite only executes ' +
+        'prepared statements asynchronously, so its connections cannot cache them'
+    });
+  }
+  const statementCacheSize = config.statementCacheSize ?? 100;
+  const statementCache = new StatementCache(syncClient, statementCacheSize);
+  const readers =
+    isConnections(client) && readerClients
+      ? new ReaderPool(
+          readerClients.map((readerClient) => ({
+            client: readerClient,
+            statementCache: new StatementCache(readerClient, statementCacheSize)
+          })),
+          client.readerSelection
+        )
+      : undefined;
+  const retryPolicy = config.retry
+    ? new RetryPolicy(config.retry === true ? {} : config.retry, logger ?? new NoopLogger())
+    : undefined;
+  const instrumentation = config.instrumentation
+    ? new QueryInstrumentation(
+        syncClient,
+        config.instrumentation === true ? {} : config.instrumentation,
+        logger ?? new NoopLogger()
+      )
+    : undefined;
+  const attachedDatabases = new AttachedDatabases([
+    syncClient,
+    ...(readers?.readers.map((reader) => reader.client) ?? [])
+  ]);
+  attachedDatabases.restore(config.attachments);
+  const session = new OPSQLiteSession(syncClient, dialect, schema, {
+    logger,
+    statementCache,
+    cache,
+    retryPolicy,
+    instrumentation,
+    readers: readers?.readers.length ? readers : undefined,
+    writeLock: config.writeLock,
+    attachedDatabases,
+    onCallbackError: config.onCallbackError
+  });
   const db = new OPSQLiteDatabase('sync', dialect, session, schema) as OPSQLiteDatabase<TSchema>;
-  (<any>db).$client = client;
+  (<any>db).$client = writer;
   (<any>db).$cache = config.cache;
   if ((<any>db).$cache) {
     (<any>db).$cache['invalidate'] = config.cache?.onMutate;
@@ -52,3 +278,27 @@ export function drizzle<TSchema extends Record<string, unknown> = Record<string,
 
   return db as any;
 }
+
+/**
+ * Creates a synchronous Drizzle database for use inside a PowerSync `writeTransaction` or `writeLock` callback,
+ * on PowerSync's write connection. Its statements run inside PowerSync's transaction and its transactions are
+ * savepoints, so that both APIs can be mixed. Do not use it after the callback has finished.
+ */
+export function drizzleInWriteTransaction<
+  TSchema extends Record<string, unknown> = Record<string, never>,
+  TClient extends DB | SyncSQLiteClient = DB
+>(
+  client: TClient,
+  config: DrizzleConfig<TSchema> & OPSQLiteViewConfig = {}
+): OPSQLiteDatabase<TSchema> & {
+  $client: TClient;
+} {
+  const dialect = createDialect(config);
+  const { logger, schema } = resolveDrizzleConfig(config);
+
+  const session = new OPSQLiteBaseSession(toSyncClient(client), dialect, schema, { logger }, 1);
+  const db = new OPSQLiteDatabase('sync', dialect, session, schema) as OPSQLiteDatabase<TSchema>;
+  (<any>db).$client = client;
+
+  return db as any;
+}
@@ -1,22 +1,43 @@
-import { DB, QueryResult, Scalar } from '@op-engineering/op-sqlite';
 import { Column, DriverValueDecoder, getTableName, SQL } from 'drizzle-orm';
+import type { Cache } from 'drizzle-orm/cache/core';
+import type { WithCacheConfig } from 'drizzle-orm/cache/core/types';
 import { entityKind, is } from 'drizzle-orm/entity';
 import type { Logger } from 'drizzle-orm/logger';
 import { fillPlaceholders, type Query } from 'drizzle-orm/sql/sql';
 import { SQLiteColumn } from 'drizzle-orm/sqlite-core';
 import type { SelectedFieldsOrdered } from 'drizzle-orm/sqlite-core/query-builders/select.types';
 import {
-  ExecuteResultSync,
   type PreparedQueryConfig as PreparedQueryConfigBase,
   type SQLiteExecuteMethod,
-  SQLitePreparedQuery
+  SQLitePreparedQuery,
+  type SQLiteSession
 } from 'drizzle-orm/sqlite-core/session';
+import { SyncSQLiteClient, SyncSQLiteStatement } from '../clients/SyncSQLiteClient.js';
+import type { StatementCache } from './StatementCache.js';
+import type { RetryPolicy } from './RetryPolicy.js';
+import type { ReaderPool } from './ReaderPool.js';
+import type { PowerSyncWriteLock } from '../powersync/PowerSyncWriteLock.js';
+import { createViewWriteStatement, viewWrite, type ViewWrite } from '../powersync/PowerSyncViewDialect.js';
+import { now, type QueryInstrumentation } from './QueryInstrumentation.js';
+import type { QueryMethod } from './logger.js';
+import { getQueryCacheKey, isSyncCache } from '../cache/SyncCache.js';
+import { mapColumnValue } from './values.js';
 
 type PreparedQueryConfig = Omit<PreparedQueryConfigBase, 'statement' | 'run'>;
 
+/**
+ * Result of `run()`, shaped like better-sqlite3's so that code can be ported between drivers.
+ */
+export interface OPSQLiteRunResult {
+  /** Number of rows inserted, updated or deleted by the statement. */
+  changes: number;
+  /** Rowid of the most recently inserted row, or `0` if the driver does not report one. */
+  lastInsertRowid: number | bigint;
+}
+
 export class OPSQLitePreparedQuery<T extends PreparedQueryConfig = PreparedQueryConfig> extends SQLitePreparedQuery<{
   type: 'sync';
-  run: QueryResult;
+  run: OPSQLiteRunResult;
   all: T['all'];
   get: T['get'];
   values: T['values'];
@@ -25,80 +46,238 @@ export class OPSQLitePreparedQuery<T extends PreparedQueryConfig = PreparedQuery
   static readonly [entityKind]: string = 'OPSQLitePreparedQuery';
 
   constructor(
-    private db: DB,
+    private client: SyncSQLiteClient,
     query: Query,
     private logger: Logger,
     private fields: SelectedFieldsOrdered | undefined,
     executeMethod: SQLiteExecuteMethod,
     private _isResponseInArrayMode: boolean,
-    private customResultMapper?: (rows: unknown[][]) => unknown
+    private customResultMapper?: (rows: unknown[][], mapColumnValue?: (value: unknown) => unknown) => unknown,
+    private statementCache?: StatementCache,
+    cache?: Cache,
+    queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] },
+    cacheConfig?: WithCacheConfig,
+    private retryPolicy?: RetryPolicy,
+    private instrumentation?: QueryInstrumentation,
+    private readers?: ReaderPool,
+    private writeLock?: PowerSyncWriteLock
   ) {
-    super('sync', executeMethod, query);
+    super('sync', executeMethod, query, cache, queryMetadata, cacheConfig);
   }
 
-  execute(placeholderValues?: Record<string, unknown>): ExecuteResultSync<T['execute']> {
-    const params = fillPlaceholders(this.query.params, placeholderValues ?? {}) as Scalar[];
-    this.logger.logQuery(this.query.sql, params);
-    const rs = this.db.executeRawSync(this.query.sql, params);
-    return new ExecuteResultSync(() => {
-      return this.mapResult(rs, false);
-    });
+  /**
+   * Returns the cached prepared statement for the query, or executes the SQL directly when the client
+   * does not support prepared statements. Reads are executed on the next connection of the reader pool, if any.
+   * Locked databases are retried according to the retry policy. Writes fail while PowerSync holds its write lock.
+   * Upserts and `returning()` queries on PowerSync views run their emulated statements instead.
+   */
+  private statement(placeholderValues: Record<string, unknown> = {}): Omit<SyncSQLiteStatement, 'finalize'> {
+    const { query, retryPolicy } = this;
+    this.writeLock?.assertUnlocked(query.sql);
+    const reader = this.readers?.acquire();
+    const client = reader?.client ?? this.client;
+    const statementCache = reader ? reader.statementCache : this.statementCache;
+    const write = (query as Query & { [viewWrite]?: ViewWrite })[viewWrite];
+    const statement = write
+      ? createViewWriteStatement(client, write, placeholderValues)
+      : (statementCache?.get(query.sql) ?? {
+          execute: (params) => client.execute(query.sql, params),
+          executeRaw: (params) => client.executeRaw(query.sql, params),
+          run: (params) => client.run(query.sql, params)
+        });
+    if (!retryPolicy) {
+      return statement;
+    }
+
+    return {
+      execute: (params) => retryPolicy.run(query.sql, () => statement.execute(params)),
+      executeRaw: (params) => retryPolicy.run(query.sql, () => statement.executeRaw(params)),
+      run: (params) => retryPolicy.run(query.sql, () => statement.run(params))
+    };
+  }
+
+  /**
+   * Synchronous version of drizzle's `queryWithCache`: selects are served from and stored in the cache
+   * according to the query's cache config, and writes invalidate the tables they touch.
+   * Only caches implementing {@link SyncCache} are consulted.
+   */
+  private queryWithSyncCache<TResult>(params: unknown[], query: () => TResult): TResult {
+    const { cache, queryMetadata, cacheConfig } = this as unknown as {
+      cache?: Cache;
+      queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] };
+      cacheConfig?: WithCacheConfig;
+    };
+    if (!cache || !isSyncCache(cache) || !queryMetadata) {
+      return query();
+    }
+
+    if (queryMetadata.type !== 'select') {
+      const result = query();
+      if (queryMetadata.tables.length > 0) {
+        cache.onMutateSync({ tables: queryMetadata.tables });
+      }
+      return result;
+    }
+
+    if (!cacheConfig) {
+      return query();
+    }
+
+    const isTag = cacheConfig.tag !== undefined;
+    const key = cacheConfig.tag ?? getQueryCacheKey(this.query.sql, params);
+    const fromCache = cache.getSync(key, queryMetadata.tables, isTag, cacheConfig.autoInvalidate);
+    if (fromCache !== undefined) {
+      return fromCache as TResult;
+    }
+
+    const result = query();
+    cache.putSync(key, result, cacheConfig.autoInvalidate ? queryMetadata.tables : [], isTag, cacheConfig.config);
+    return result;
+  }
+
+  /**
+   * Finalizes the prepared statement of this query. It is prepared again if the query is executed afterwards.
+   */
+  finalize(): void {
+    this.statementCache?.delete(this.query.sql);
+    this.readers?.readers.forEach((reader) => reader.statementCache.delete(this.query.sql));
   }
 
-  run(placeholderValues?: Record<string, unknown>): QueryResult {
-    const params = fillPlaceholders(this.query.params, placeholderValues ?? {}) as Scalar[];
+  /**
+   * Prepares the same query with another session, which decides again whether it runs on a reader, uses the
+   * query cache and checks the write lock.
+   */
+  prepareIn(
+    session: SQLiteSession<'sync', unknown, any, any>
+  ): SQLitePreparedQuery<PreparedQueryConfigBase & { type: 'sync' }> {
+    const { executeMethod, queryMetadata, cacheConfig } = this as unknown as {
+      executeMethod: SQLiteExecuteMethod;
+      queryMetadata?: { type: 'select' | 'update' | 'delete' | 'insert'; tables: string[] };
+      cacheConfig?: WithCacheConfig;
+    };
+    return session.prepareQuery(
+      this.query,
+      this.fields,
+      executeMethod,
+      this._isResponseInArrayMode,
+      this.customResultMapper,
+      queryMetadata,
+      cacheConfig
+    );
+  }
+
+  run(placeholderValues?: Record<string, unknown>): OPSQLiteRunResult {
+    const params = fillPlaceholders(this.query.params, placeholderValues ?? {});
     this.logger.logQuery(this.query.sql, params);
-    const rs = this.db.executeSync(this.query.sql, params);
-    return rs;
+    return this.instrument(
+      'run',
+      params,
+      () => {
+        const { changes, lastInsertRowid } = this.queryWithSyncCache(params, () =>
+          this.statement(placeholderValues).run(params)
+        );
+        return { changes, lastInsertRowid: lastInsertRowid ?? 0 };
+      },
+      (result) => result.changes
+    );
   }
 
   all(placeholderValues?: Record<string, unknown>): T['all'] {
     const { fields, query, logger, customResultMapper } = this;
-    if (!fields && !customResultMapper) {
-      const params = fillPlaceholders(query.params, placeholderValues ?? {}) as Scalar[];
-      logger.logQuery(query.sql, params);
-      const rs = this.db.executeSync(this.query.sql, params);
-      return rs.rows ?? [];
-    }
+    const params = fillPlaceholders(query.params, placeholderValues ?? {});
+    logger.logQuery(query.sql, params);
 
-    const rows = this.values(placeholderValues) as unknown[][];
+    return this.instrument(
+      'all',
+      params,
+      () => {
+        if (!fields && !customResultMapper) {
+          return this.queryWithSyncCache(params, () => this.statement(placeholderValues).execute(params));
+        }
 
-    if (customResultMapper) {
-      const mapped = customResultMapper(rows) as T['all'];
-      return mapped;
-    }
-    return rows.map((row) => mapResultRow(fields!, row, (this as any).joinsNotNullableMap));
+        const rows = this.executeValues(params, placeholderValues);
+
+        if (customResultMapper) {
+          const mapped = customResultMapper(rows, mapColumnValue) as T['all'];
+          return mapped;
+        }
+        return rows.map((row) => mapResultRow(fields!, row, (this as any).joinsNotNullableMap));
+      },
+      (rows) => (Array.isArray(rows) ? rows.length : 0)
+    );
   }
 
   get(placeholderValues?: Record<string, unknown>): T['get'] {
-    const params = fillPlaceholders(this.query.params, placeholderValues ?? {}) as Scalar[];
+    const params = fillPlaceholders(this.query.params, placeholderValues ?? {});
     this.logger.logQuery(this.query.sql, params);
 
     const { fields, customResultMapper } = this;
     const joinsNotNullableMap = (this as any).joinsNotNullableMap;
-    if (!fields && !customResultMapper) {
-      return this.db.executeSync(this.query.sql, params) as T['get'];
-    }
+    return this.instrument(
+      'get',
+      params,
+      () => {
+        if (!fields && !customResultMapper) {
+          return this.queryWithSyncCache(params, () => this.statement(placeholderValues).execute(params))[0];
+        }
 
-    const rows = this.values(placeholderValues) as unknown[][];
-    const row = rows[0];
+        const rows = this.executeValues(params, placeholderValues);
+        const row = rows[0];
 
-    if (!row) {
-      return undefined;
-    }
+        if (!row) {
+          return undefined;
+        }
 
-    if (customResultMapper) {
-      return customResultMapper(rows) as T['get'];
-    }
+        if (customResultMapper) {
+          return customResultMapper(rows, mapColumnValue) as T['get'];
+        }
 
-    return mapResultRow(fields!, row, joinsNotNullableMap);
+        return mapResultRow(fields!, row, joinsNotNullableMap);
+      },
+      (row) => (row === undefined ? 0 : 1)
+    );
   }
 
   values(placeholderValues?: Record<string, unknown>): T['values'] {
-    const params = fillPlaceholders(this.query.params, placeholderValues ?? {}) as Scalar[];
+    const params = fillPlaceholders(this.query.params, placeholderValues ?? {});
     this.logger.logQuery(this.query.sql, params);
 
-    return this.db.executeRawSync(this.query.sql, params);
+    return this.instrument(
+      'values',
+      params,
+      () => this.executeValues(params, placeholderValues),
+      (rows) => rows.length
+    );
+  }
+
+  private executeValues(params: unknown[], placeholderValues?: Record<string, unknown>): unknown[][] {
+    return this.queryWithSyncCache(params, () => this.statement(placeholderValues).executeRaw(params));
+  }
+
+  /**
+   * Times the operation and reports it to the query instrumentation, if enabled.
+   */
+  private instrument<TResult>(
+    method: QueryMethod,
+    params: unknown[],
+    operation: () => TResult,
+    countRows: (result: TResult) => number
+  ): TResult {
+    const { instrumentation } = this;
+    if (!instrumentation) {
+      return operation();
+    }
+
+    const start = now();
+    const result = operation();
+    instrumentation.report({
+      query: this.query.sql,
+      params,
+      method,
+      duration: now() - start,
+      rowCount: countRows(result)
+    });
+    return result;
   }
 
   isResponseInArrayMode(): boolean {
@@ -130,7 +309,8 @@ export function mapResultRow<TResult>(
         node = node[pathChunk];
       } else {
         const rawValue = row[columnIndex]!;
-        const value = (node[pathChunk] = rawValue === null ? null : decoder.mapFromDriverValue(rawValue));
+        const value = (node[pathChunk] =
+          rawValue === null ? null : decoder.mapFromDriverValue(mapColumnValue(rawValue)));
 
         updateNullifyMap(nullifyMap, field, path, value, joinsNotNullableMap);
       }
@@ -0,0 +1,67 @@
+import { is } from 'drizzle-orm/entity';
+import { DefaultLogger } from 'drizzle-orm/logger';
+import type { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+import type { OPSQLiteLogger, QueryPlanStep, QueryReport } from './logger.js';
+
+export interface InstrumentationConfig {
+  /**
+   * Statements taking at least this many milliseconds are reported as slow. Defaults to 100.
+   */
+  slowQueryThreshold?: number;
+  /**
+   * Attaches the `EXPLAIN QUERY PLAN` of slow statements to their report.
+   */
+  explainSlowQueries?: boolean;
+}
+
+/**
+ * Reports the duration and row count of every statement to the logger, flagging slow ones.
+ */
+export class QueryInstrumentation {
+  readonly slowQueryThreshold: number;
+  readonly explainSlowQueries: boolean;
+
+  constructor(
+    protected client: SyncSQLiteClient,
+    config: InstrumentationConfig,
+    protected logger: OPSQLiteLogger
+  ) {
+    this.slowQueryThreshold = config.slowQueryThreshold ?? 100;
+    this.explainSlowQueries = config.explainSlowQueries ?? false;
+  }
+
+  report(timing: Omit<QueryReport, 'slow' | 'queryPlan'>) {
+    const report: QueryReport = { ...timing, slow: timing.duration >= this.slowQueryThreshold };
+    if (report.slow && this.explainSlowQueries) {
+      report.queryPlan = this.explain(report.query, report.params);
+    }
+
+    if (this.logger.logQueryReport) {
+      this.logger.logQueryReport(report);
+    } else if (report.slow && is(this.logger, DefaultLogger)) {
+      const plan = report.queryPlan?.map((step) => `\n  ${step.detail}`).join('') ?? '';
+      this.logger.writer.write(
+        `Slow query (${report.duration.toFixed(1)}ms, ${report.method}, ${report.rowCount} rows): ${report.query}${plan}`
+      );
+    }
+  }
+
+  /**
+   * Returns the query plan, or `undefined` for statements that cannot be explained.
+   */
+  protected explain(query: string, params: unknown[]): QueryPlanStep[] | undefined {
+    try {
+      return this.client.execute(`explain query plan ${query}`, params).map((row) => ({
+        id: Number(row.id),
+        parent: Number(row.parent),
+        detail: String(row.detail)
+      }));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
@@ -0,0 +1,44 @@
+import type { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+import type { StatementCache } from './StatementCache.js';
+
+/**
+ * How a read connection is picked for each query.
+ *
+ * - `round-robin` cycles through the readers in order.
+ * - `least-recently-used` picks the reader that has gone longest without a query.
+ */
+export type ReaderSelection = 'round-robin' | 'least-recently-used';
+
+export interface PooledReader {
+  client: SyncSQLiteClient;
+  statementCache: StatementCache;
+}
+
+/**
+ * Read connections that selects outside of transactions are routed to.
+ */
+export class ReaderPool {
+  protected nextIndex = 0;
+  protected lastUsed: number[];
+  protected uses = 0;
+
+  constructor(
+    readonly readers: PooledReader[],
+    readonly selection: ReaderSelection = 'round-robin'
+  ) {
+    this.lastUsed = readers.map(() => 0);
+  }
+
+  acquire(): PooledReader {
+    let index: number;
+    if (this.selection === 'least-recently-used') {
+      index = this.lastUsed.indexOf(Math.min(...this.lastUsed));
+    } else {
+      index = this.nextIndex;
+      this.nextIndex = (this.nextIndex + 1) % this.readers.length;
+    }
+
+    this.lastUsed[index] = ++this.uses;
+    return this.readers[index];
+  }
+}
@@ -0,0 +1,99 @@
+import { is } from 'drizzle-orm/entity';
+import { DefaultLogger } from 'drizzle-orm/logger';
+import { getSQLiteErrorCode } from './errors.js';
+import type { OPSQLiteLogger, RetryEvent } from './logger.js';
+
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * Returns the delay in milliseconds before the given retry, starting at 1. Defaults to an exponential
+   * backoff starting at 10ms, capped at 200ms.
+   */
+  backoff?: (retry: number) => number;
+  /**
+   * Total time in milliseconds after which no further retries are attempted. Defaults to 2000.
+   */
+  timeout?: number;
+  /**
+   * SQLite result codes that are retried. Defaults to `['SQLITE_BUSY', 'SQLITE_LOCKED']`.
+   */
+  codes?: string[];
+}
+
+/**
+ * Retries operations that fail because another connection holds a lock on the database. The driver is
+ * synchronous, so the delay between attempts blocks the thread.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  readonly timeout: number;
+  readonly codes: string[];
+  protected backoff: (retry: number) => number;
+
+  constructor(
+    config: RetryConfig,
+    protected logger: OPSQLiteLogger
+  ) {
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.timeout = config.timeout ?? 2000;
+    this.codes = config.codes ?? ['SQLITE_BUSY', 'SQLITE_LOCKED'];
+    this.backoff = config.backoff ?? ((retry) => Math.min(10 * 2 ** (retry - 1), 200));
+  }
+
+  run<T>(query: string, operation: () => T): T {
+    const start = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return operation();
+      } catch (error) {
+        const code = getSQLiteErrorCode(error);
+        const delay = this.backoff(attempt);
+        if (
+          code === undefined ||
+          !this.codes.includes(code) ||
+          attempt >= this.maxAttempts ||
+          Date.now() - start + delay > this.timeout
+        ) {
+          throw error;
+        }
+
+        this.report({ query, retry: attempt, delay, error });
+        sleepSync(delay);
+      }
+    }
+  }
+
+  protected report(event: RetryEvent) {
+    if (this.logger.logRetry) {
+      this.logger.logRetry(event);
+    } else if (is(this.logger, DefaultLogger)) {
+      const reason = event.error instanceof Error ? event.error.message : String(event.error);
+      this.logger.writer.write(`Retry ${event.retry} in ${event.delay}ms (${reason}): ${event.query}`);
+    }
+  }
+}
+
+/**
+ * Blocks the thread for the given time. `Atomics.wait` is used where it is allowed, otherwise the
+ * thread spins, as on Hermes without `SharedArrayBuffer`.
+ */
+function sleepSync(ms: number) {
+  if (ms <= 0) {
+    return;
+  }
+  if (typeof SharedArrayBuffer !== 'undefined' && typeof Atomics !== 'undefined') {
+    try {
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+      return;
+    } catch {
+      // Not allowed on this thread
+    }
+  }
+  const end = Date.now() + ms;
+  while (Date.now() < end) {
+    // Spin until the delay has passed
+  }
+}
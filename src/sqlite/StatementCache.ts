@@ -0,0 +1,65 @@
+import type { SyncSQLiteClient, SyncSQLiteStatement } from '../clients/SyncSQLiteClient.js';
+
+/**
+ * Least-recently-used cache of prepared statements keyed by SQL. Evicted statements are finalized.
+ * Clients without `prepare`, such as op-sqlite connections, bypass it.
+ */
+export class StatementCache {
+  protected statements = new Map<string, SyncSQLiteStatement>();
+
+  constructor(
+    protected client: SyncSQLiteClient,
+    readonly maxSize: number
+  ) {}
+
+  /**
+   * Returns the cached statement for `sql`, preparing it if needed.
+   * Returns `undefined` when the client does not support prepared statements or caching is disabled.
+   */
+  get(sql: string): SyncSQLiteStatement | undefined {
+    if (!this.client.prepare || this.maxSize <= 0) {
+      return undefined;
+    }
+
+    let statement = this.statements.get(sql);
+    if (statement) {
+      // Move to the most recently used position
+      this.statements.delete(sql);
+    } else {
+      statement = this.client.prepare(sql);
+    }
+    this.statements.set(sql, statement);
+
+    for (const [oldestSql, oldest] of this.statements) {
+      if (this.statements.size <= this.maxSize) {
+        break;
+      }
+      this.statements.delete(oldestSql);
+      oldest.finalize();
+    }
+
+    return statement;
+  }
+
+  /**
+   * Finalizes and removes the statement for `sql`, if cached.
+   */
+  delete(sql: string): void {
+    const statement = this.statements.get(sql);
+    if (statement) {
+      this.statements.delete(sql);
+      statement.finalize();
+    }
+  }
+
+  clear(): void {
+    for (const statement of this.statements.values()) {
+      statement.finalize();
+    }
+    this.statements.clear();
+  }
+
+  get size(): number {
+    return this.statements.size;
+  }
+}
@@ -0,0 +1,121 @@
+import type { DB, UpdateHookOperation } from '@op-engineering/op-sqlite';
+
+export interface TableUpdate {
+  table: string;
+  operation: UpdateHookOperation;
+  rowId: number;
+}
+
+export interface TableUpdateListener {
+  /**
+   * Called with the row changes of a transaction once it has been committed.
+   */
+  tablesCommitted?: (updates: TableUpdate[]) => void;
+}
+
+/**
+ * The op-sqlite hooks used to track changes. Each hook only holds a single callback per connection.
+ */
+export type SQLiteUpdateHooks = Pick<DB, 'updateHook' | 'commitHook' | 'rollbackHook'>;
+
+/**
+ * Callbacks installed on a connection's hooks by its owner, such as PowerSync's connection. The observer calls them
+ * along with its own callbacks and puts them back when its last listener is removed.
+ */
+export interface SQLiteHookCallbacks {
+  update?: Parameters<DB['updateHook']>[0];
+  commit?: Parameters<DB['commitHook']>[0];
+  rollback?: Parameters<DB['rollbackHook']>[0];
+}
+
+/**
+ * Buffers row changes reported by the update hook and notifies listeners when the transaction is committed.
+ * Changes are discarded when the transaction is rolled back.
+ *
+ * op-sqlite only supports one callback per hook, so a single observer is shared per connection
+ * through {@link getTableUpdateObserver}.
+ */
+export class TableUpdateObserver {
+  protected listeners = new Set<TableUpdateListener>();
+  protected buffer: TableUpdate[] = [];
+
+  protected previousCallbacks: SQLiteHookCallbacks = {};
+
+  constructor(protected hooks: SQLiteUpdateHooks) {}
+
+  /**
+   * Sets the owner's callbacks, which are called by the observer's hooks and put back once the last listener is
+   * removed.
+   */
+  chainCallbacks(callbacks: SQLiteHookCallbacks) {
+    this.previousCallbacks = callbacks;
+  }
+
+  registerListener(listener: TableUpdateListener): () => void {
+    if (this.listeners.size === 0) {
+      this.install();
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.uninstall();
+      }
+    };
+  }
+
+  protected install() {
+    this.hooks.updateHook((update) => {
+      this.previousCallbacks.update?.(update);
+      const { table, operation, rowId } = update;
+      this.buffer.push({ table, operation, rowId });
+    });
+    this.hooks.commitHook(() => {
+      this.previousCallbacks.commit?.();
+      if (!this.buffer.length) {
+        return;
+      }
+
+      const updates = this.buffer;
+      this.buffer = [];
+      for (const listener of this.listeners) {
+        listener.tablesCommitted?.(updates);
+      }
+    });
+    this.hooks.rollbackHook(() => {
+      this.previousCallbacks.rollback?.();
+      this.buffer = [];
+    });
+  }
+
+  protected uninstall() {
+    this.hooks.updateHook(this.previousCallbacks.update ?? null);
+    this.hooks.commitHook(this.previousCallbacks.commit ?? null);
+    this.hooks.rollbackHook(this.previousCallbacks.rollback ?? null);
+    this.buffer = [];
+  }
+}
+
+const observers = new WeakMap<SQLiteUpdateHooks, TableUpdateObserver>();
+
+/**
+ * Returns the observer shared by all listeners on the given connection. op-sqlite cannot return the callbacks
+ * that are already installed, so pass them as `previousCallbacks` to keep calling them while the observer is
+ * installed and to restore them once it is no longer used. They are remembered for later calls on the same
+ * connection. Connections without known callbacks have their hooks cleared.
+ */
+export function getTableUpdateObserver(
+  db: SQLiteUpdateHooks,
+  previousCallbacks?: SQLiteHookCallbacks
+): TableUpdateObserver {
+  let observer = observers.get(db);
+  if (!observer) {
+    observer = new TableUpdateObserver(db);
+    observers.set(db, observer);
+  }
+  if (previousCallbacks) {
+    observer.chainCallbacks(previousCallbacks);
+  }
+  return observer;
+}
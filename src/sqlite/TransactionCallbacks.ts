@@ -0,0 +1,44 @@
+/**
+ * Callbacks registered with `afterCommit` and `afterRollback` on a transaction. Nested transactions hand theirs
+ * to the enclosing transaction when they are released, so that they run once the outermost transaction finishes.
+ */
+export class TransactionCallbacks {
+  readonly afterCommit: (() => void)[] = [];
+  readonly afterRollback: (() => void)[] = [];
+
+  /**
+   * Moves all callbacks to the enclosing transaction's callbacks.
+   */
+  moveTo(parent: TransactionCallbacks) {
+    parent.afterCommit.push(...this.afterCommit.splice(0));
+    parent.afterRollback.push(...this.afterRollback.splice(0));
+  }
+
+  /**
+   * Runs every `afterCommit` callback, even when an earlier one throws. Errors are passed to `onError`, since the
+   * transaction has already been committed and must not be reported as failed.
+   */
+  runAfterCommit(onError: (error: unknown) => void) {
+    this.afterRollback.length = 0;
+    runAll(this.afterCommit.splice(0), onError);
+  }
+
+  /**
+   * Runs every `afterRollback` callback. Errors are passed to `onError`, so that the error which caused the
+   * rollback is the one that reaches the caller.
+   */
+  runAfterRollback(onError: (error: unknown) => void) {
+    this.afterCommit.length = 0;
+    runAll(this.afterRollback.splice(0), onError);
+  }
+}
+
+function runAll(callbacks: (() => void)[], onError: (error: unknown) => void) {
+  for (const callback of callbacks) {
+    try {
+      callback();
+    } catch (err) {
+      onError(err);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import type { OPSQLiteTransactionConfig } from './OPSQLiteBaseSession.js';
+import { isReadOnlyError, OPSQLiteReadOnlyTransactionError } from './errors.js';
+
+/**
+ * The statements that start and end a transaction, shared by the synchronous and asynchronous sessions so that
+ * both nest the same way. The outermost transaction uses `begin`/`commit`/`rollback`, nested transactions use
+ * savepoints so that only the inner scope is rolled back when its callback throws.
+ */
+export class TransactionScope {
+  readonly isNested: boolean;
+  readonly begin: string;
+  readonly commit: string[];
+  readonly rollback: string[];
+  /**
+   * Read-only transactions are enforced with `PRAGMA query_only`, whose previous value is restored afterwards.
+   */
+  readonly isReadOnly: boolean;
+
+  constructor(nestedIndex: number, config: OPSQLiteTransactionConfig = {}) {
+    this.isNested = nestedIndex > 0;
+    this.isReadOnly = config.accessMode === 'read only';
+    if (this.isNested) {
+      const savepointName = `sp${nestedIndex}`;
+      this.begin = `savepoint ${savepointName}`;
+      this.commit = [`release savepoint ${savepointName}`];
+      this.rollback = [`rollback to savepoint ${savepointName}`, `release savepoint ${savepointName}`];
+    } else {
+      this.begin = `begin${config.behavior ? ' ' + config.behavior : ''}`;
+      this.commit = ['commit'];
+      this.rollback = ['rollback'];
+    }
+  }
+
+  static readonly readQueryOnly = 'pragma query_only';
+  static readonly enableQueryOnly = 'pragma query_only = 1';
+
+  static restoreQueryOnly(previous: unknown): string {
+    return `pragma query_only = ${previous ? 1 : 0}`;
+  }
+
+  /**
+   * Reports writes rejected by `query_only` with an {@link OPSQLiteReadOnlyTransactionError}.
+   */
+  static mapReadOnlyError(err: unknown): unknown {
+    return isReadOnlyError(err) ? new OPSQLiteReadOnlyTransactionError(err) : err;
+  }
+}
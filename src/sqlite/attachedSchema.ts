@@ -0,0 +1,29 @@
+import { sqliteTable, type SQLiteTableFn } from 'drizzle-orm/sqlite-core/table';
+
+// drizzle's internal `Table.Symbol.Schema`, which qualifies table and column names in the generated SQL
+const Schema = Symbol.for('drizzle:Schema');
+
+/**
+ * Tables of a database attached with `$attach`.
+ */
+export interface AttachedSchema<TAlias extends string> {
+  readonly schemaName: TAlias;
+  /**
+   * Defines a table like `sqliteTable`, with its name qualified by the schema alias, such as `"catalog"."products"`.
+   */
+  readonly table: SQLiteTableFn<TAlias>;
+}
+
+/**
+ * Defines tables that live in the database attached under `alias`, so that selects and joins with tables of
+ * the main database compile to schema-qualified names. Results are keyed by the table name without the alias.
+ */
+export function attachedSchema<TAlias extends string>(alias: TAlias): AttachedSchema<TAlias> {
+  const table: SQLiteTableFn<TAlias> = (name: string, columns: any, extraConfig?: any) => {
+    const attachedTable: any = sqliteTable(name, columns, extraConfig);
+    attachedTable[Schema] = alias;
+    return attachedTable;
+  };
+
+  return { schemaName: alias, table };
+}
@@ -0,0 +1,34 @@
+import { DefaultLogger, type Logger } from 'drizzle-orm/logger';
+import {
+  createTableRelationsHelpers,
+  extractTablesRelationalConfig,
+  type RelationalSchemaConfig,
+  type TablesRelationalConfig
+} from 'drizzle-orm/relations';
+import type { DrizzleConfig } from 'drizzle-orm/utils';
+
+/**
+ * Resolves the logger and relational schema from a Drizzle config, shared by the sync and async drivers.
+ */
+export function resolveDrizzleConfig<TSchema extends Record<string, unknown>>(
+  config: DrizzleConfig<TSchema>
+): { logger: Logger | undefined; schema: RelationalSchemaConfig<TablesRelationalConfig> | undefined } {
+  let logger;
+  if (config.logger === true) {
+    logger = new DefaultLogger();
+  } else if (config.logger !== false) {
+    logger = config.logger;
+  }
+
+  let schema: RelationalSchemaConfig<TablesRelationalConfig> | undefined;
+  if (config.schema) {
+    const tablesConfig = extractTablesRelationalConfig(config.schema, createTableRelationsHelpers);
+    schema = {
+      fullSchema: config.schema,
+      schema: tablesConfig.tables,
+      tableNamesMap: tablesConfig.tableNamesMap
+    };
+  }
+
+  return { logger, schema };
+}
@@ -0,0 +1,140 @@
+import { DrizzleError } from 'drizzle-orm/errors';
+import { entityKind, is } from 'drizzle-orm/entity';
+import type { ScriptStatement } from './script.js';
+
+/**
+ * Thrown when a statement tries to modify the database inside a transaction started with
+ * `accessMode: 'read only'`.
+ */
+export class OPSQLiteReadOnlyTransactionError extends DrizzleError {
+  static readonly [entityKind]: string = 'OPSQLiteReadOnlyTransactionError';
+
+  constructor(cause: unknown) {
+    super({ message: 'Cannot modify the database inside a read-only transaction', cause });
+  }
+}
+
+/**
+ * Checks an error and its causes, since `db.run(sql)` wraps driver errors in a {@link DrizzleError}.
+ */
+export function isReadOnlyError(err: unknown): boolean {
+  for (let current = err; current != null; current = (current as { cause?: unknown }).cause) {
+    const message = current instanceof Error ? current.message : String(current);
+    if (/readonly database|SQLITE_READONLY/i.test(message)) {
+      return true;
+    }
+    if (!(current instanceof Error)) {
+      break;
+    }
+  }
+  return false;
+}
+
+const PRIMARY_ERROR_CODES: Record<number, string> = {
+  5: 'SQLITE_BUSY',
+  6: 'SQLITE_LOCKED'
+};
+
+const ERROR_MESSAGES: [RegExp, string][] = [
+  [/database is locked/i, 'SQLITE_BUSY'],
+  [/database (table|schema) is locked/i, 'SQLITE_LOCKED']
+];
+
+/**
+ * Returns the primary SQLite result code name of an error, such as `SQLITE_BUSY`, from the error codes
+ * reported by better-sqlite3 and `node:sqlite` or from the messages thrown by op-sqlite.
+ */
+export function getSQLiteErrorCode(err: unknown): string | undefined {
+  for (let current = err; current != null; current = (current as { cause?: unknown }).cause) {
+    const { code, errcode } = current as { code?: unknown; errcode?: unknown };
+    if (typeof code === 'string' && code.startsWith('SQLITE_')) {
+      return code.replace(/^(SQLITE_[A-Z]+)_.*$/, '$1');
+    }
+    if (typeof errcode === 'number' && PRIMARY_ERROR_CODES[errcode & 0xff]) {
+      return PRIMARY_ERROR_CODES[errcode & 0xff];
+    }
+
+    const message = current instanceof Error ? current.message : String(current);
+    const opSQLiteCode = /SQLite (?:error )?code: (\d+)/.exec(message);
+    if (opSQLiteCode && PRIMARY_ERROR_CODES[Number(opSQLiteCode[1]) & 0xff]) {
+      return PRIMARY_ERROR_CODES[Number(opSQLiteCode[1]) & 0xff];
+    }
+    const match = ERROR_MESSAGES.find(([pattern]) => pattern.test(message));
+    if (match) {
+      return match[1];
+    }
+    if (!(current instanceof Error)) {
+      break;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Thrown when the synchronous driver tries to write while PowerSync holds its write lock, which would
+ * interleave the write with PowerSync's transaction on the same connection.
+ */
+export class OPSQLiteWriteLockError extends DrizzleError {
+  static readonly [entityKind]: string = 'OPSQLiteWriteLockError';
+
+  constructor(readonly query: string) {
+    super({
+      message:
+        'Cannot write while PowerSync holds the write lock. Use writeLock.runExclusive() to wait for it, ' +
+        `or drizzleInWriteTransaction() inside a PowerSync transaction: ${query}`
+    });
+  }
+}
+
+/**
+ * Whether the error, or one of its causes, is an {@link OPSQLiteWriteLockError}. Raw SQL executed with
+ * `db.run(sql)` reports the write lock wrapped in a {@link DrizzleError}, while builder queries throw it directly.
+ */
+export function isWriteLockError(err: unknown): boolean {
+  for (let current = err; current != null; current = (current as { cause?: unknown }).cause) {
+    if (is(current, OPSQLiteWriteLockError)) {
+      return true;
+    }
+    if (!(current instanceof Error)) {
+      break;
+    }
+  }
+  return false;
+}
+
+/**
+ * Thrown when the synchronous driver runs a query on a connection while a `drizzleAsync()` transaction is open
+ * on it, which would run the query inside that transaction.
+ */
+export class OPSQLiteAsyncTransactionError extends DrizzleError {
+  static readonly [entityKind]: string = 'OPSQLiteAsyncTransactionError';
+
+  constructor(readonly query: string) {
+    super({
+      message:
+        'Cannot run a synchronous query while an async transaction is open on the same connection. Run it with ' +
+        `the transaction's tx, or after awaiting the transaction: ${query}`
+    });
+  }
+}
+
+/**
+ * Thrown by `$executeScript` when a statement of the script fails. Statements before it have been applied,
+ * unless the script ran in a transaction.
+ */
+export class OPSQLiteScriptError extends DrizzleError {
+  static readonly [entityKind]: string = 'OPSQLiteScriptError';
+
+  constructor(
+    /** The failed statement, with its index and position in the script. */
+    readonly statement: ScriptStatement,
+    cause: unknown
+  ) {
+    super({
+      message: `Statement ${statement.index + 1} of the script at line ${statement.line}, column ${statement.column} failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      cause
+    });
+  }
+}
@@ -0,0 +1,252 @@
+import {
+  Column,
+  getTableColumns,
+  getTableName,
+  is,
+  type Name,
+  type Placeholder,
+  SQL,
+  type SQLChunk,
+  sql
+} from 'drizzle-orm';
+import { CasingCache } from 'drizzle-orm/casing';
+import { DrizzleError } from 'drizzle-orm/errors';
+import type { SQLiteColumn, SQLiteColumnBuilderBase } from 'drizzle-orm/sqlite-core/columns/common';
+import { integer } from 'drizzle-orm/sqlite-core/columns/integer';
+import { type SQLiteTable, sqliteTable } from 'drizzle-orm/sqlite-core/table';
+import type { Casing } from 'drizzle-orm/utils';
+
+/**
+ * Options of an FTS5 virtual table.
+ */
+export interface Fts5Config<TColumnName extends string = string> {
+  /**
+   * Table whose columns of the same names are indexed, instead of storing a copy of the text in the FTS5 table.
+   * Triggers on it keep the index in sync with inserts, updates and deletes.
+   */
+  content?: SQLiteTable;
+  /**
+   * Integer primary key of the content table that the FTS5 `rowid` refers to. Defaults to the content table's `rowid`.
+   */
+  contentRowid?: SQLiteColumn;
+  /**
+   * Tokenizer and its arguments, such as `porter unicode61 remove_diacritics 2`.
+   */
+  tokenize?: string;
+  /**
+   * Lengths of the prefixes to index, which speeds up prefix queries such as `sear*`.
+   */
+  prefix?: number[];
+  /**
+   * Columns that are stored but not indexed, so that they are returned without being searched.
+   */
+  unindexed?: TColumnName[];
+}
+
+export interface Fts5StatementsConfig {
+  /**
+   * The `casing` passed to `drizzle()`, which names columns defined without an explicit name.
+   */
+  casing?: Casing;
+}
+
+const fts5Config = Symbol('fts5Config');
+
+/**
+ * Defines an FTS5 virtual table with the given text columns and its implicit `rowid`, which joins it with its
+ * content table. Create it with the statements from {@link fts5Statements}.
+ *
+ * drizzle-kit treats every table exported from its `schema` files as a regular table and would generate a plain
+ * `create table` for it, which the FTS5 statements then skip. Define the table in a module outside of drizzle-kit's
+ * `schema`.
+ */
+export function fts5Table<TTableName extends string, TColumnsMap extends Record<string, SQLiteColumnBuilderBase>>(
+  name: TTableName,
+  columns: TColumnsMap,
+  config: Fts5Config<Extract<keyof TColumnsMap, string>> = {}
+) {
+  const table = sqliteTable(name, { rowid: integer('rowid'), ...columns });
+  (<any>table)[fts5Config] = config;
+  return table;
+}
+
+/**
+ * Returns the statements that create the FTS5 table and, for tables with a content table, the triggers that keep the
+ * index in sync. They can be run on every start, since they skip what already exists. Rows that exist before the
+ * table is created are indexed with {@link fts5RebuildStatement}.
+ */
+export function fts5Statements(table: SQLiteTable, { casing }: Fts5StatementsConfig = {}): string[] {
+  const config = getFts5Config(table);
+  const name = getTableName(table);
+  const casingCache = new CasingCache(casing);
+  const columnNames = getFts5Columns(table).map((column) => casingCache.getColumnCasing(column));
+  const unindexed = new Set(config.unindexed?.map((key) => casingCache.getColumnCasing(getTableColumns(table)[key]!)));
+
+  const options = [
+    ...columnNames.map(
+      (columnName) => `${quoteIdentifier(columnName)}${unindexed.has(columnName) ? ' unindexed' : ''}`
+    ),
+    ...(config.content ? [`content=${quoteString(getTableName(config.content))}`] : []),
+    ...(config.contentRowid ? [`content_rowid=${quoteString(casingCache.getColumnCasing(config.contentRowid))}`] : []),
+    ...(config.tokenize ? [`tokenize=${quoteString(config.tokenize)}`] : []),
+    ...(config.prefix?.length ? [`prefix=${quoteString(config.prefix.join(' '))}`] : [])
+  ];
+  const statements = [`create virtual table if not exists ${quoteIdentifier(name)} using fts5(${options.join(', ')})`];
+  if (!config.content) {
+    return statements;
+  }
+
+  const content = quoteIdentifier(getTableName(config.content));
+  const contentRowid = config.contentRowid
+    ? quoteIdentifier(casingCache.getColumnCasing(config.contentRowid))
+    : 'rowid';
+  const columnList = ['rowid', ...columnNames.map(quoteIdentifier)].join(', ');
+  const values = (row: 'new' | 'old') =>
+    [`${row}.${contentRowid}`, ...columnNames.map((columnName) => `${row}.${quoteIdentifier(columnName)}`)].join(', ');
+  const insert = `insert into ${quoteIdentifier(name)} (${columnList}) values (${values('new')});`;
+  const remove = `insert into ${quoteIdentifier(name)} (${quoteIdentifier(name)}, ${columnList}) values ('delete', ${values('old')});`;
+  const trigger = (event: string, body: string) =>
+    `create trigger if not exists ${quoteIdentifier(`${name}_after_${event}`)} after ${event} on ${content} begin ${body} end`;
+
+  return [
+    ...statements,
+    trigger('insert', insert),
+    trigger('delete', remove),
+    trigger('update', `${remove} ${insert}`)
+  ];
+}
+
+/**
+ * Returns the statement that rebuilds the index of an FTS5 table from its content table. Run it once after
+ * creating the table, such as in the same migration, since it re-reads the whole content table.
+ */
+export function fts5RebuildStatement(table: SQLiteTable): string {
+  if (!getFts5Config(table).content) {
+    throw new DrizzleError({ message: `The FTS5 table "${getTableName(table)}" has no content table to rebuild from` });
+  }
+  const name = quoteIdentifier(getTableName(table));
+  return `insert into ${name} (${name}) values ('rebuild')`;
+}
+
+/**
+ * Matches rows of the FTS5 table against a full-text query. Pass a column to only search that column.
+ */
+export function match(target: SQLiteTable | SQLiteColumn, query: string | SQL | Placeholder): SQL<boolean> {
+  return is(target, Column) ? sql`${target} match ${query}` : sql`${fts5Identifier(target)} match ${query}`;
+}
+
+/**
+ * The BM25 rank of a matched row. Better matches have lower values, so order by it ascending. Pass a weight for
+ * each column to rank matches in some columns higher than in others.
+ */
+export function bm25(table: SQLiteTable, ...weights: number[]): SQL<number> {
+  return fts5Function(
+    'bm25',
+    table,
+    weights.map((weight) => numberLiteral('bm25 weight', weight, Number.isFinite(weight)))
+  ).mapWith(Number);
+}
+
+/**
+ * The text of the column with every matched phrase wrapped in `open` and `close`. It is decoded by the column.
+ */
+export function highlight<TColumn extends SQLiteColumn>(
+  column: TColumn,
+  open: string,
+  close: string
+): SQL<TColumn['_']['data']> {
+  return fts5Function('highlight', column.table as SQLiteTable, [
+    sql.raw(String(getColumnIndex(column))),
+    sql`${open}`,
+    sql`${close}`
+  ]).mapWith(column);
+}
+
+export interface SnippetOptions {
+  open: string;
+  close: string;
+  /** Text marking the start or end of a snippet that does not start or end with the column's text. */
+  ellipsis: string;
+  /** Maximum number of tokens in the snippet, from 1 to 64. */
+  maxTokens: number;
+}
+
+/**
+ * A short fragment of the column's text around the matched phrases, which are wrapped in `open` and `close`.
+ * Pass the table instead of a column to take the fragment from the column that matches best.
+ */
+export function snippet<TColumn extends SQLiteColumn>(
+  column: TColumn,
+  options: SnippetOptions
+): SQL<TColumn['_']['data']>;
+export function snippet(table: SQLiteTable, options: SnippetOptions): SQL<string>;
+export function snippet(target: SQLiteTable | SQLiteColumn, options: SnippetOptions): SQL<unknown> {
+  const isColumn = is(target, Column);
+  const snippetSql = fts5Function('snippet', isColumn ? (target.table as SQLiteTable) : target, [
+    sql.raw(String(isColumn ? getColumnIndex(target) : -1)),
+    sql`${options.open}`,
+    sql`${options.close}`,
+    sql`${options.ellipsis}`,
+    numberLiteral(
+      'snippet maxTokens',
+      options.maxTokens,
+      Number.isInteger(options.maxTokens) && options.maxTokens >= 1 && options.maxTokens <= 64
+    )
+  ]);
+  return isColumn ? snippetSql.mapWith(target) : snippetSql.mapWith(String);
+}
+
+function getFts5Config(table: SQLiteTable): Fts5Config {
+  const config = (<any>table)[fts5Config] as Fts5Config | undefined;
+  if (!config) {
+    throw new DrizzleError({ message: `The table "${getTableName(table)}" is not defined with fts5Table()` });
+  }
+  return config;
+}
+
+function fts5Identifier(table: SQLiteTable): Name {
+  getFts5Config(table);
+  return sql.identifier(getTableName(table));
+}
+
+/**
+ * Calls an FTS5 auxiliary function, which takes the table as its first argument.
+ */
+function fts5Function(name: string, table: SQLiteTable, args: SQLChunk[]): SQL {
+  return sql`${sql.raw(name)}(${sql.join([fts5Identifier(table), ...args], sql`, `)})`;
+}
+
+/**
+ * The columns of the FTS5 table, in the order FTS5 numbers them.
+ */
+function getFts5Columns(table: SQLiteTable): SQLiteColumn[] {
+  return Object.values(getTableColumns(table)).filter((column) => column.name !== 'rowid');
+}
+
+function getColumnIndex(column: SQLiteColumn): number {
+  const table = column.table as SQLiteTable;
+  getFts5Config(table);
+  const index = getFts5Columns(table).indexOf(column);
+  if (index < 0) {
+    throw new DrizzleError({ message: `The column "${column.name}" is not a text column of an FTS5 table` });
+  }
+  return index;
+}
+
+/**
+ * Inlines a number argument of an FTS5 function, after checking that it is a valid number.
+ */
+function numberLiteral(name: string, value: number, isValid: boolean): SQL {
+  if (typeof value !== 'number' || !isValid) {
+    throw new DrizzleError({ message: `Invalid ${name}: ${String(value)}` });
+  }
+  return sql.raw(String(value));
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,47 @@
+import type { Logger } from 'drizzle-orm/logger';
+
+export interface RetryEvent {
+  query: string;
+  /**
+   * The number of the upcoming retry, starting at 1.
+   */
+  retry: number;
+  delay: number;
+  error: unknown;
+}
+
+export type QueryMethod = 'run' | 'all' | 'get' | 'values';
+
+export interface QueryPlanStep {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+export interface QueryReport {
+  query: string;
+  params: unknown[];
+  method: QueryMethod;
+  /**
+   * Time in milliseconds the statement blocked the thread, including mapping its results.
+   */
+  duration: number;
+  /**
+   * Rows returned by `all`, `get` and `values`, or rows changed by `run`.
+   */
+  rowCount: number;
+  slow: boolean;
+  /**
+   * The `EXPLAIN QUERY PLAN` of slow statements, when enabled.
+   */
+  queryPlan?: QueryPlanStep[];
+}
+
+/**
+ * A drizzle logger that can additionally be notified of retried and instrumented queries. When these
+ * methods are not implemented, drizzle's `DefaultLogger` writes retries and slow queries to its writer.
+ */
+export interface OPSQLiteLogger extends Logger {
+  logRetry?(event: RetryEvent): void;
+  logQueryReport?(report: QueryReport): void;
+}
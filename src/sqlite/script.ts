@@ -0,0 +1,115 @@
+/**
+ * A statement of a SQL script, with its position in the script.
+ */
+export interface ScriptStatement {
+  sql: string;
+  /** Zero-based index of the statement in the script. */
+  index: number;
+  /** Offset of the statement's first character in the script. */
+  offset: number;
+  /** One-based line of the statement's first character. */
+  line: number;
+  /** One-based column of the statement's first character. */
+  column: number;
+}
+
+const QUOTES: Record<string, string> = { "'": "'", '"': '"', '`': '`', '[': ']' };
+const WORD = /[A-Za-z_][A-Za-z0-9_$]*/y;
+
+/**
+ * Splits a script into statements at semicolons, skipping semicolons in string literals, quoted identifiers,
+ * comments and the `BEGIN ... END` bodies of `CREATE TRIGGER` statements. Empty statements are left out.
+ */
+export function splitStatements(script: string): ScriptStatement[] {
+  const statements: ScriptStatement[] = [];
+  let start = -1;
+  let words: string[] = [];
+  let depth = 0;
+  // Lines are counted as the statements are found, so that the script is only scanned once
+  let line = 1;
+  let lineStart = 0;
+  let counted = 0;
+
+  const positionOf = (offset: number) => {
+    for (; counted < offset; counted++) {
+      if (script[counted] === '\n') {
+        line++;
+        lineStart = counted + 1;
+      }
+    }
+    return { line, column: offset - lineStart + 1 };
+  };
+  const isTrigger = () => words[0] === 'CREATE' && words.slice(1, 3).some((word) => word === 'TRIGGER');
+  const end = (position: number) => {
+    if (start >= 0) {
+      statements.push({
+        sql: script.slice(start, position).trim(),
+        index: statements.length,
+        offset: start,
+        ...positionOf(start)
+      });
+    }
+    start = -1;
+    words = [];
+    depth = 0;
+  };
+
+  let i = 0;
+  while (i < script.length) {
+    const char = script[i]!;
+    const next = script[i + 1];
+
+    if (char === '-' && next === '-') {
+      const lineEnd = script.indexOf('\n', i);
+      i = lineEnd < 0 ? script.length : lineEnd + 1;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const commentEnd = script.indexOf('*/', i + 2);
+      i = commentEnd < 0 ? script.length : commentEnd + 2;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === ';') {
+      if (depth === 0) {
+        end(i);
+      }
+      i++;
+      continue;
+    }
+
+    if (start < 0) {
+      start = i;
+    }
+    const closingQuote = QUOTES[char];
+    if (closingQuote) {
+      // Quotes are escaped by doubling them, which is read as two adjacent quoted parts
+      const quoteEnd = script.indexOf(closingQuote, i + 1);
+      i = quoteEnd < 0 ? script.length : quoteEnd + 1;
+      continue;
+    }
+    WORD.lastIndex = i;
+    const word = WORD.exec(script);
+    if (!word) {
+      i++;
+      continue;
+    }
+
+    const upper = word[0].toUpperCase();
+    words.push(upper);
+    if (isTrigger()) {
+      if (upper === 'BEGIN' || upper === 'CASE') {
+        depth++;
+      } else if (upper === 'END' && depth > 0) {
+        depth--;
+      }
+    }
+    i += word[0].length;
+  }
+  end(script.length);
+
+  return statements;
+}
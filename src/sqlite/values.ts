@@ -0,0 +1,39 @@
+import type { Scalar } from '@op-engineering/op-sqlite';
+
+/**
+ * Converts query parameters to values op-sqlite can bind:
+ *
+ * - Typed arrays and `Buffer`s, as produced by drizzle's blob columns, are copied to an `ArrayBuffer` of
+ *   their exact size, since op-sqlite binds the whole underlying buffer of a view.
+ * - `bigint`s are bound as numbers when they are safe integers. Larger values are bound as their decimal
+ *   text, which SQLite stores as an exact 64-bit integer in columns with `INTEGER` or `NUMERIC` affinity.
+ */
+export function toOPSQLiteParams(params: unknown[]): Scalar[];
+export function toOPSQLiteParams(params: unknown[] | undefined): Scalar[] | undefined;
+export function toOPSQLiteParams(params: unknown[] | undefined): Scalar[] | undefined {
+  return params?.map(toOPSQLiteParam);
+}
+
+function toOPSQLiteParam(value: unknown): Scalar {
+  if (typeof value === 'bigint') {
+    return value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER ? Number(value) : value.toString();
+  }
+  if (ArrayBuffer.isView(value)) {
+    return value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer;
+  }
+  return value as Scalar;
+}
+
+/**
+ * Normalizes a value returned by the driver before it is passed to a column decoder. It is used for selects
+ * and passed to relational query mappers, so that both decode values the same way.
+ *
+ * op-sqlite returns blobs as `ArrayBuffer`, while drizzle's blob decoders expect a `Buffer` where one is
+ * available, as returned by its other SQLite drivers.
+ */
+export function mapColumnValue(value: unknown): unknown {
+  if (value instanceof ArrayBuffer && typeof Buffer !== 'undefined' && Buffer.from) {
+    return Buffer.from(value);
+  }
+  return value;
+}
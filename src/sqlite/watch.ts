@@ -0,0 +1,154 @@
+import type { Query } from 'drizzle-orm/sql/sql';
+import type { SyncSQLiteClient } from '../clients/SyncSQLiteClient.js';
+import { getTableUpdateObserver } from './TableUpdateObserver.js';
+
+/**
+ * A Drizzle query that can be executed synchronously, such as a select (`all()`) or a relational query (`sync()`).
+ */
+export type SyncQuery<T> = { toSQL(): Query } & ({ all(): T } | { sync(): T });
+
+export interface WatchOptions {
+  /**
+   * Called when re-running the query fails. Errors are rethrown when not provided.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export function executeSyncQuery<T>(query: SyncQuery<T>): T {
+  return 'sync' in query ? query.sync() : query.all();
+}
+
+/**
+ * Resolves the tables a query reads from using `EXPLAIN`. Views are resolved to their underlying tables,
+ * which are the names reported by the update hook. Virtual tables, such as FTS5 tables, are resolved to their
+ * shadow tables and external content table.
+ */
+export function getSourceTables(client: SyncSQLiteClient, query: Query): string[] {
+  const rootPages = new Map<number, Set<number>>();
+  let opensVirtualTable = false;
+  // The plan does not depend on the parameter values, which may still be placeholders
+  const params = query.params.map(() => null);
+  for (const [, opcode, , rootPage, database] of client.executeRaw(`explain ${query.sql}`, params)) {
+    if (opcode === 'OpenRead') {
+      let pages = rootPages.get(Number(database));
+      if (!pages) {
+        pages = new Set();
+        rootPages.set(Number(database), pages);
+      }
+      pages.add(Number(rootPage));
+    } else if (opcode === 'VOpen') {
+      opensVirtualTable = true;
+    }
+  }
+
+  const identifiers = opensVirtualTable ? getIdentifiers(query.sql) : undefined;
+  const tables = new Set<string>();
+  for (const [seq, name] of client.executeRaw('pragma database_list')) {
+    const schema = `"${String(name).replace(/"/g, '""')}"`;
+    const pages = rootPages.get(Number(seq));
+    if (pages) {
+      const rows = client.executeRaw(
+        `select tbl_name from ${schema}.sqlite_master where rootpage in (${[...pages].join(', ')})`
+      );
+      rows.forEach(([table]) => tables.add(String(table)));
+    }
+    if (identifiers) {
+      getVirtualSourceTables(client, schema, identifiers).forEach((table) => tables.add(table));
+    }
+  }
+
+  return [...tables];
+}
+
+/**
+ * `VOpen` does not name the virtual table it opens, so the virtual tables of the schema are matched against the
+ * identifiers of the query instead. Writes to a virtual table are reported by the update hook as writes to its
+ * shadow tables, which share its name as a prefix, and external content tables are written directly.
+ */
+function getVirtualSourceTables(client: SyncSQLiteClient, schema: string, identifiers: Set<string>): string[] {
+  const tables: string[] = [];
+  const virtualTables = client.executeRaw(
+    `select name, sql from ${schema}.sqlite_master where type = 'table' and sql like 'create virtual table%'`
+  );
+  for (const [name, sql] of virtualTables) {
+    if (!identifiers.has(String(name).toLowerCase())) {
+      continue;
+    }
+
+    tables.push(String(name));
+    const shadowTables = client.executeRaw(
+      `select name from ${schema}.sqlite_master where type = 'table' and name like ? escape '\\'`,
+      [`${String(name).replace(/[\\%_]/g, '\\$&')}\\_%`]
+    );
+    shadowTables.forEach(([table]) => tables.push(String(table)));
+
+    const content = /\bcontent\s*=\s*(?:'((?:[^']|'')*)'|"((?:[^"]|"")*)"|([\w$]+))/i.exec(String(sql));
+    const contentTable = content?.[1]?.replace(/''/g, "'") ?? content?.[2]?.replace(/""/g, '"') ?? content?.[3];
+    if (contentTable) {
+      tables.push(contentTable);
+    }
+  }
+  return tables;
+}
+
+/**
+ * Returns the lower-cased identifiers of a statement, quoted or not, skipping string literals.
+ */
+function getIdentifiers(sql: string): Set<string> {
+  const identifiers = new Set<string>();
+  const tokens = /'(?:[^']|'')*'|"((?:[^"]|"")*)"|`((?:[^`]|``)*)`|\[([^\]]*)\]|([A-Za-z_][\w$]*)/g;
+  for (const [, doubleQuoted, backticked, bracketed, bare] of sql.matchAll(tokens)) {
+    const identifier = doubleQuoted?.replace(/""/g, '"') ?? backticked?.replace(/``/g, '`') ?? bracketed ?? bare;
+    if (identifier !== undefined) {
+      identifiers.add(identifier.toLowerCase());
+    }
+  }
+  return identifiers;
+}
+
+/**
+ * Runs the query and calls `callback` with the result, then re-runs it whenever a transaction
+ * changing one of its source tables is committed.
+ *
+ * @returns A function that stops watching.
+ */
+export function watchQuery<T>(
+  client: SyncSQLiteClient,
+  query: SyncQuery<T>,
+  callback: (result: T) => void,
+  options: WatchOptions = {}
+): () => void {
+  if (!client.updateHooks) {
+    throw new Error('Watching queries requires a client with update hooks, such as op-sqlite');
+  }
+
+  const tables = new Set(getSourceTables(client, query.toSQL()));
+  const dispose = getTableUpdateObserver(client.updateHooks).registerListener({
+    tablesCommitted: (updates) => {
+      if (!updates.some(({ table }) => tables.has(table))) {
+        return;
+      }
+
+      let result: T;
+      try {
+        result = executeSyncQuery(query);
+      } catch (err) {
+        if (!options.onError) {
+          throw err;
+        }
+        options.onError(err);
+        return;
+      }
+      callback(result);
+    }
+  });
+
+  try {
+    callback(executeSyncQuery(query));
+  } catch (err) {
+    dispose();
+    throw err;
+  }
+
+  return dispose;
+}
@@ -0,0 +1,5 @@
+import Database from 'better-sqlite3';
+import { createBetterSQLite3Client } from '../src/index.js';
+import { describeClientBehaviour } from './support/clientBehaviour.js';
+
+describeClientBehaviour('better-sqlite3', async () => createBetterSQLite3Client(new Database(':memory:')));
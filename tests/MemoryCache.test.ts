@@ -0,0 +1,165 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { Cache } from 'drizzle-orm/cache/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  drizzle,
+  drizzleAsync,
+  getPowerSyncWriteConnection,
+  memoryCache,
+  type OPSQLiteDatabase
+} from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { FakePowerSyncConnection } from './support/powersync.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+class AsyncOnlyCache extends Cache {
+  strategy() {
+    return 'all' as const;
+  }
+  async get() {
+    return undefined;
+  }
+  async put() {}
+  async onMutate() {}
+}
+
+describe('memoryCache', () => {
+  let client: DB;
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const selectLists = () => db.select({ name: lists.name }).from(lists).$withCache().all();
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema, cache: memoryCache() });
+  });
+
+  it('serves repeated selects from the cache', () => {
+    db.insert(lists).values({ name: 'Groceries' }).run();
+    const executeRaw = vi.spyOn(client, 'executeRawSync');
+
+    expect(selectLists()).toEqual([{ name: 'Groceries' }]);
+    expect(selectLists()).toEqual([{ name: 'Groceries' }]);
+    expect(executeRaw).toHaveBeenCalledTimes(1);
+
+    db.select().from(lists).all();
+    db.select().from(lists).all();
+    expect(executeRaw).toHaveBeenCalledTimes(3);
+  });
+
+  it('invalidates tables written through drizzle', () => {
+    expect(selectLists()).toEqual([]);
+
+    db.insert(lists).values({ name: 'Groceries' }).run();
+
+    expect(selectLists()).toEqual([{ name: 'Groceries' }]);
+  });
+
+  it('invalidates tables written outside of drizzle', () => {
+    expect(selectLists()).toEqual([]);
+
+    client.executeSync(`insert into lists (name) values ('Groceries')`);
+
+    expect(selectLists()).toEqual([{ name: 'Groceries' }]);
+  });
+
+  it('keeps tagged queries without auto invalidation until their tag is invalidated', async () => {
+    const selectTagged = () =>
+      db.select({ name: lists.name }).from(lists).$withCache({ tag: 'lists', autoInvalidate: false }).all();
+    expect(selectTagged()).toEqual([]);
+
+    db.insert(lists).values({ name: 'Groceries' }).run();
+    expect(selectTagged()).toEqual([]);
+
+    await db.$cache.invalidate({ tags: 'lists' });
+    expect(selectTagged()).toEqual([{ name: 'Groceries' }]);
+  });
+
+  it('caches every select with the global strategy, except inside transactions', () => {
+    db = drizzle(client, { schema, cache: memoryCache({ global: true }) });
+    const executeRaw = vi.spyOn(client, 'executeRawSync');
+
+    db.select().from(lists).all();
+    db.select().from(lists).all();
+    expect(executeRaw).toHaveBeenCalledTimes(1);
+
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Groceries' }).run();
+        expect(tx.select({ name: lists.name }).from(lists).all()).toEqual([{ name: 'Groceries' }]);
+        tx.rollback();
+      })
+    ).toThrow('Rollback');
+
+    expect(db.select().from(lists).all()).toEqual([]);
+  });
+
+  it('bypasses the cache for selects in a batch', () => {
+    db = drizzle(client, { schema, cache: memoryCache({ global: true }) });
+
+    expect(() =>
+      db.batch([
+        db.insert(lists).values({ id: 1, name: 'Ghost' }),
+        db.select({ name: lists.name }).from(lists),
+        db.insert(lists).values({ id: 1, name: 'Duplicate' })
+      ])
+    ).toThrow();
+
+    expect(db.select({ name: lists.name }).from(lists).all()).toEqual([]);
+  });
+
+  it('expires entries', () => {
+    vi.useFakeTimers();
+    try {
+      db = drizzle(client, { schema, cache: memoryCache({ config: { px: 100 } }) });
+      const selectTagged = () =>
+        db.select({ name: lists.name }).from(lists).$withCache({ tag: 'lists', autoInvalidate: false }).all();
+      selectTagged();
+      db.insert(lists).values({ name: 'Groceries' }).run();
+      expect(selectTagged()).toEqual([]);
+
+      vi.advanceTimersByTime(100);
+
+      expect(selectTagged()).toEqual([{ name: 'Groceries' }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects caches without synchronous methods', () => {
+    expect(() => drizzle(client, { cache: new AsyncOnlyCache() })).toThrow('SyncCache');
+  });
+
+  it('is used by the async driver', async () => {
+    const asyncDb = drizzleAsync(client, { schema, cache: memoryCache({ global: true }) });
+    const executeRaw = vi.spyOn(client, 'executeRaw');
+
+    await asyncDb.select().from(lists);
+    await asyncDb.select().from(lists);
+    expect(executeRaw).toHaveBeenCalledTimes(1);
+
+    await asyncDb.insert(lists).values({ name: 'Groceries' });
+    expect(await asyncDb.select({ name: lists.name }).from(lists)).toEqual([{ name: 'Groceries' }]);
+  });
+
+  it("keeps calling the hooks of PowerSync's write connection", async () => {
+    // The cache installed by beforeEach already replaced the hooks of the shared client
+    const powerSyncClient = await openOPSQLite();
+    createTables.forEach((statement) => powerSyncClient.executeSync(statement));
+    const notifications: number[][] = [];
+    const connection = new FakePowerSyncConnection(powerSyncClient, (update) =>
+      notifications.push(update.rawUpdates.map((n) => n.rowId))
+    );
+    const powersync = { database: { writeConnection: connection } };
+    db = drizzle(getPowerSyncWriteConnection(powersync), { schema, cache: memoryCache() });
+    const asyncDb = drizzleAsync(getPowerSyncWriteConnection(powersync), { schema, cache: memoryCache() });
+
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+    connection.flushUpdates();
+    await asyncDb.insert(lists).values({ id: 2, name: 'Chores' });
+    connection.flushUpdates();
+
+    expect(notifications).toEqual([[1], [2]]);
+  });
+});
@@ -0,0 +1,5 @@
+import { createNodeSQLiteClient } from '../src/index.js';
+import { describeClientBehaviour } from './support/clientBehaviour.js';
+import { openNodeSQLite } from './support/node-sqlite.js';
+
+describeClientBehaviour('node:sqlite', async () => createNodeSQLiteClient(await openNodeSQLite()));
@@ -0,0 +1,136 @@
+import { eq, sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  drizzle,
+  drizzleAsync,
+  OPSQLiteAsyncTransactionError,
+  type OPSQLiteAsyncDatabase,
+  type OPSQLiteDatabase,
+  OPSQLiteReadOnlyTransactionError
+} from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema, todos } from './support/schema.js';
+
+describe('drizzleAsync', () => {
+  let db: OPSQLiteAsyncDatabase<typeof schema>;
+  let syncDb: OPSQLiteDatabase<typeof schema>;
+
+  const listNames = async () =>
+    (await db.select({ name: lists.name }).from(lists).orderBy(lists.id)).map((row) => row.name);
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzleAsync(client, { schema });
+    syncDb = drizzle(client, { schema });
+  });
+
+  it('maps results the same way as the sync driver', async () => {
+    await db.insert(lists).values([{ name: 'Groceries' }, { name: 'Chores', archived: true }]);
+    await db.insert(todos).values({ description: 'Milk', list_id: 1 });
+
+    const joined = () => db.select().from(lists).leftJoin(todos, eq(todos.list_id, lists.id)).orderBy(lists.id);
+    expect(await joined()).toEqual(
+      syncDb.select().from(lists).leftJoin(todos, eq(todos.list_id, lists.id)).orderBy(lists.id).all()
+    );
+    expect((await joined())[1]).toEqual({ lists: { id: 2, name: 'Chores', archived: true }, todos: null });
+    expect(await db.select().from(lists).get()).toEqual({ id: 1, name: 'Groceries', archived: false });
+    expect(await db.query.lists.findMany({ with: { todos: true } })).toEqual(
+      syncDb.query.lists.findMany({ with: { todos: true } }).sync()
+    );
+  });
+
+  it('returns raw rows and values', async () => {
+    await db.insert(lists).values({ name: 'Groceries' });
+
+    expect(await db.all(sql`select name from lists`)).toEqual([{ name: 'Groceries' }]);
+    expect(await db.get(sql`select name from lists`)).toEqual({ name: 'Groceries' });
+    expect(await db.values(sql`select id, name from lists`)).toEqual([[1, 'Groceries']]);
+  });
+
+  it('returns run results like the sync driver', async () => {
+    expect(await db.insert(lists).values({ name: 'Groceries' })).toEqual({ changes: 1, lastInsertRowid: 1 });
+  });
+
+  it('returns rows from returning()', async () => {
+    expect(await db.insert(lists).values({ name: 'Groceries' }).returning()).toEqual([
+      { id: 1, name: 'Groceries', archived: false }
+    ]);
+  });
+
+  it('commits and rolls back transactions', async () => {
+    await db.transaction(async (tx) => {
+      await tx.insert(lists).values({ name: 'Outer' });
+      await expect(
+        tx.transaction(async (inner) => {
+          await inner.insert(lists).values({ name: 'Inner' });
+          inner.rollback();
+        })
+      ).rejects.toThrow('Rollback');
+    });
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.insert(lists).values({ name: 'Discarded' });
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+
+    expect(await listNames()).toEqual(['Outer']);
+  });
+
+  it('runs concurrent transactions one after another', async () => {
+    const order: string[] = [];
+    const run = (name: string) =>
+      db.transaction(async (tx) => {
+        order.push(`start ${name}`);
+        await tx.insert(lists).values({ name });
+        order.push(`end ${name}`);
+      });
+
+    await Promise.all([run('A'), run('B')]);
+
+    expect(order).toEqual(['start A', 'end A', 'start B', 'end B']);
+    expect(await listNames()).toEqual(['A', 'B']);
+  });
+
+  it('rejects writes in read-only transactions', async () => {
+    await expect(
+      db.transaction(
+        (tx) =>
+          tx
+            .insert(lists)
+            .values({ name: 'Groceries' })
+            .then(() => {}),
+        {
+          accessMode: 'read only'
+        }
+      )
+    ).rejects.toThrow(OPSQLiteReadOnlyTransactionError);
+    await db.insert(lists).values({ name: 'Groceries' });
+
+    expect(await listNames()).toEqual(['Groceries']);
+  });
+
+  it('refuses sync queries on the connection while an async transaction is open', async () => {
+    let inTransaction!: () => void;
+    const started = new Promise<void>((resolve) => (inTransaction = resolve));
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+
+    const transaction = db.transaction(async (tx) => {
+      await tx.insert(lists).values({ name: 'Groceries' });
+      inTransaction();
+      await released;
+      tx.rollback();
+    });
+    await started;
+
+    expect(() => syncDb.insert(lists).values({ name: 'Chores' }).run()).toThrow(OPSQLiteAsyncTransactionError);
+    expect(() => syncDb.transaction(() => {})).toThrow(OPSQLiteAsyncTransactionError);
+    release();
+    await expect(transaction).rejects.toThrow();
+
+    syncDb.insert(lists).values({ name: 'Chores' }).run();
+    expect(await listNames()).toEqual(['Chores']);
+  });
+});
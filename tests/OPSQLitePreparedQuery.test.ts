@@ -0,0 +1,212 @@
+import { eq, relations, sql } from 'drizzle-orm';
+import { blob, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema, todos } from './support/schema.js';
+
+describe('OPSQLitePreparedQuery', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+    db.insert(lists)
+      .values([
+        { id: 1, name: 'Groceries' },
+        { id: 2, name: 'Chores', archived: true }
+      ])
+      .run();
+    db.insert(todos)
+      .values([
+        { id: 1, description: 'Milk', list_id: 1 },
+        { id: 2, description: 'Eggs', list_id: 1 },
+        { id: 3, description: 'Unsorted', list_id: null }
+      ])
+      .run();
+  });
+
+  it('runs statements', () => {
+    const result = db.insert(lists).values({ id: 3, name: 'Work' }).run();
+
+    expect(result).toEqual({ changes: 1, lastInsertRowid: 3 });
+    expect(db.run(sql`delete from ${lists}`)).toEqual({ changes: 3, lastInsertRowid: 3 });
+  });
+
+  it('maps all rows through the column decoders', () => {
+    const rows = db.select().from(lists).orderBy(lists.id).all();
+
+    expect(rows).toEqual([
+      { id: 1, name: 'Groceries', archived: false },
+      { id: 2, name: 'Chores', archived: true }
+    ]);
+  });
+
+  it('returns raw objects when no fields are selected', () => {
+    const rows = db.all(sql`select id, name from ${lists} order by id`);
+
+    expect(rows).toEqual([
+      { id: 1, name: 'Groceries' },
+      { id: 2, name: 'Chores' }
+    ]);
+  });
+
+  it('gets a single row', () => {
+    expect(db.select().from(lists).where(eq(lists.id, 2)).get()).toEqual({ id: 2, name: 'Chores', archived: true });
+    expect(db.select().from(lists).where(eq(lists.id, 42)).get()).toBeUndefined();
+  });
+
+  it('gets the first raw object when no fields are selected', () => {
+    expect(db.get(sql`select id, name from ${lists} order by id`)).toEqual({ id: 1, name: 'Groceries' });
+    expect(db.get(sql`select id from ${lists} where id = 42`)).toBeUndefined();
+  });
+
+  it('returns values as arrays', () => {
+    const rows = db.select({ id: lists.id, name: lists.name }).from(lists).orderBy(lists.id).values();
+
+    expect(rows).toEqual([
+      [1, 'Groceries'],
+      [2, 'Chores']
+    ]);
+  });
+
+  it('executes prepared queries with placeholders', async () => {
+    const query = db
+      .select()
+      .from(todos)
+      .where(eq(todos.list_id, sql.placeholder('listId')))
+      .orderBy(todos.id)
+      .prepare();
+
+    expect(query.execute({ listId: 1 }).sync()).toEqual([
+      { id: 1, description: 'Milk', list_id: 1 },
+      { id: 2, description: 'Eggs', list_id: 1 }
+    ]);
+    expect(await query.execute({ listId: 2 })).toEqual([]);
+  });
+
+  it('nullifies nested objects of left joined tables without a match', () => {
+    const rows = db.select().from(todos).leftJoin(lists, eq(todos.list_id, lists.id)).orderBy(todos.id).all();
+
+    expect(rows).toEqual([
+      {
+        todos: { id: 1, description: 'Milk', list_id: 1 },
+        lists: { id: 1, name: 'Groceries', archived: false }
+      },
+      {
+        todos: { id: 2, description: 'Eggs', list_id: 1 },
+        lists: { id: 1, name: 'Groceries', archived: false }
+      },
+      { todos: { id: 3, description: 'Unsorted', list_id: null }, lists: null }
+    ]);
+  });
+
+  it('maps partial selects across joined tables', () => {
+    const rows = db
+      .select({ todo: todos.description, list: { name: lists.name } })
+      .from(todos)
+      .leftJoin(lists, eq(todos.list_id, lists.id))
+      .where(eq(todos.id, 3))
+      .all();
+
+    expect(rows).toEqual([{ todo: 'Unsorted', list: null }]);
+  });
+
+  it('runs relational queries', () => {
+    const result = db.query.lists
+      .findMany({
+        with: { todos: { columns: { description: true }, orderBy: todos.id } },
+        orderBy: lists.id
+      })
+      .sync();
+
+    expect(result).toEqual([
+      { id: 1, name: 'Groceries', archived: false, todos: [{ description: 'Milk' }, { description: 'Eggs' }] },
+      { id: 2, name: 'Chores', archived: true, todos: [] }
+    ]);
+  });
+
+  it('finds the first relational result', () => {
+    const result = db.query.todos.findFirst({ where: eq(todos.id, 1), with: { list: true } }).sync();
+
+    expect(result).toEqual({
+      id: 1,
+      description: 'Milk',
+      list_id: 1,
+      list: { id: 1, name: 'Groceries', archived: false }
+    });
+    expect(db.query.todos.findFirst({ where: eq(todos.id, 42) }).sync()).toBeUndefined();
+  });
+
+  it('returns rows from returning()', () => {
+    const inserted = db.insert(lists).values({ id: 3, name: 'Work' }).returning().all();
+    const updated = db.update(lists).set({ archived: true }).where(eq(lists.id, 3)).returning({ id: lists.id }).get();
+    const deleted = db.delete(lists).where(eq(lists.id, 3)).returning({ name: lists.name }).all();
+
+    expect(inserted).toEqual([{ id: 3, name: 'Work', archived: false }]);
+    expect(updated).toEqual({ id: 3 });
+    expect(deleted).toEqual([{ name: 'Work' }]);
+  });
+});
+
+describe('relational column decoding', () => {
+  const parents = sqliteTable('parents', { id: integer('id').primaryKey() });
+  const values = sqliteTable('values', {
+    id: integer('id').primaryKey(),
+    parent_id: integer('parent_id').notNull(),
+    flag: integer('flag', { mode: 'boolean' }),
+    seconds: integer('seconds', { mode: 'timestamp' }),
+    milliseconds: integer('milliseconds', { mode: 'timestamp_ms' }),
+    json: text('json', { mode: 'json' }),
+    blobJson: blob('blob_json', { mode: 'json' })
+  });
+  const valuesSchema = {
+    parents,
+    values,
+    parentsRelations: relations(parents, ({ many }) => ({ values: many(values) })),
+    valuesRelations: relations(values, ({ one }) => ({
+      parent: one(parents, { fields: [values.parent_id], references: [parents.id] })
+    }))
+  };
+
+  it('decodes values like selects do, including nested relations', async () => {
+    const client = await openOPSQLite();
+    client.executeSync('create table parents (id integer primary key)');
+    client.executeSync(
+      'create table "values" (id integer primary key, parent_id integer not null, flag integer, seconds integer, milliseconds integer, json text, blob_json blob)'
+    );
+    const db = drizzle(client, { schema: valuesSchema });
+    db.insert(parents).values({ id: 1 }).run();
+    db.insert(values)
+      .values({
+        id: 1,
+        parent_id: 1,
+        flag: true,
+        seconds: new Date('2024-01-02T03:04:05Z'),
+        milliseconds: new Date('2024-01-02T03:04:05.678Z'),
+        json: { tags: ['a', 'b'] },
+        blobJson: { nested: true }
+      })
+      .run();
+
+    const [selected] = db.select().from(values).all();
+
+    expect(selected).toEqual({
+      id: 1,
+      parent_id: 1,
+      flag: true,
+      seconds: new Date('2024-01-02T03:04:05Z'),
+      milliseconds: new Date('2024-01-02T03:04:05.678Z'),
+      json: { tags: ['a', 'b'] },
+      blobJson: { nested: true }
+    });
+    expect(db.query.values.findFirst({ with: { parent: true } }).sync()).toEqual({ ...selected, parent: { id: 1 } });
+    // SQLite cannot embed blobs in the JSON of nested relations
+    const { blobJson: _, ...nested } = selected;
+    expect(db.query.parents.findFirst({ with: { values: { columns: { blobJson: false } } } }).sync()).toEqual({
+      id: 1,
+      values: [nested]
+    });
+  });
+});
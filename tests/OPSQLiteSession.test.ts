@@ -0,0 +1,253 @@
+import { sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, OPSQLiteReadOnlyTransactionError, type OPSQLiteDatabase } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema, todos } from './support/schema.js';
+
+describe('OPSQLiteSession transactions', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const listNames = () =>
+    db
+      .select({ name: lists.name })
+      .from(lists)
+      .orderBy(lists.id)
+      .all()
+      .map((row) => row.name);
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+  });
+
+  it('commits and returns the callback result', () => {
+    const result = db.transaction((tx) => {
+      tx.insert(lists).values({ name: 'Groceries' }).run();
+      return tx.select().from(lists).all().length;
+    });
+
+    expect(result).toBe(1);
+    expect(listNames()).toEqual(['Groceries']);
+  });
+
+  it('rolls back when the callback throws', () => {
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Groceries' }).run();
+        throw new Error('failed');
+      })
+    ).toThrow('failed');
+    expect(listNames()).toEqual([]);
+  });
+
+  it('rolls back on tx.rollback()', () => {
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Groceries' }).run();
+        tx.rollback();
+      })
+    ).toThrow('Rollback');
+    expect(listNames()).toEqual([]);
+  });
+
+  it('rolls back only the inner scope of a nested transaction', () => {
+    db.transaction((tx) => {
+      tx.insert(lists).values({ name: 'Outer' }).run();
+      expect(() =>
+        tx.transaction((inner) => {
+          inner.insert(lists).values({ name: 'Inner' }).run();
+          inner.transaction((innermost) => {
+            innermost.insert(lists).values({ name: 'Innermost' }).run();
+          });
+          throw new Error('inner failed');
+        })
+      ).toThrow('inner failed');
+      tx.transaction((inner) => {
+        inner.insert(lists).values({ name: 'Second' }).run();
+      });
+    });
+
+    expect(listNames()).toEqual(['Outer', 'Second']);
+  });
+
+  it('rolls back nested transactions with the outer transaction', () => {
+    expect(() =>
+      db.transaction((tx) => {
+        tx.transaction((inner) => {
+          inner.insert(lists).values({ name: 'Inner' }).run();
+        });
+        tx.rollback();
+      })
+    ).toThrow();
+    expect(listNames()).toEqual([]);
+  });
+
+  it('rejects writes in read-only transactions and restores query_only', () => {
+    expect(() =>
+      db.transaction((tx) => tx.insert(lists).values({ name: 'Groceries' }).run(), { accessMode: 'read only' })
+    ).toThrow(OPSQLiteReadOnlyTransactionError);
+    expect(() =>
+      db.transaction((tx) => tx.run(sql`insert into lists (name) values ('Groceries')`), { accessMode: 'read only' })
+    ).toThrow(OPSQLiteReadOnlyTransactionError);
+
+    expect(db.values(sql`pragma query_only`)).toEqual([[0]]);
+    db.insert(lists).values({ name: 'Chores' }).run();
+    expect(listNames()).toEqual(['Chores']);
+  });
+
+  it('allows reads in read-only transactions', () => {
+    db.insert(lists).values({ name: 'Groceries' }).run();
+
+    const rows = db.transaction((tx) => tx.select().from(lists).all(), { accessMode: 'read only' });
+
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('OPSQLiteTransaction callbacks', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+  let callbackErrors: unknown[];
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    callbackErrors = [];
+    db = drizzle(client, { schema, onCallbackError: (error) => callbackErrors.push(error) });
+  });
+
+  it('runs afterCommit callbacks after the commit', () => {
+    const events: string[] = [];
+
+    db.transaction((tx) => {
+      tx.insert(lists).values({ name: 'Groceries' }).run();
+      tx.afterCommit(() => events.push(`commit ${db.select().from(lists).all().length}`));
+      tx.afterRollback(() => events.push('rollback'));
+      events.push('callback');
+    });
+
+    expect(events).toEqual(['callback', 'commit 1']);
+  });
+
+  it('runs afterRollback callbacks after the rollback', () => {
+    const events: string[] = [];
+
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Groceries' }).run();
+        tx.afterCommit(() => events.push('commit'));
+        tx.afterRollback(() => events.push(`rollback ${db.select().from(lists).all().length}`));
+        tx.afterRollback(() => {
+          throw new Error('callback failed');
+        });
+        tx.rollback();
+      })
+    ).toThrow('Rollback');
+
+    expect(events).toEqual(['rollback 0']);
+  });
+
+  it('defers nested afterCommit callbacks to the outermost commit', () => {
+    const events: string[] = [];
+
+    db.transaction((tx) => {
+      tx.transaction((inner) => {
+        inner.afterCommit(() => events.push('inner commit'));
+        inner.afterRollback(() => events.push('inner rollback'));
+      });
+      expect(() =>
+        tx.transaction((inner) => {
+          inner.afterCommit(() => events.push('failed commit'));
+          inner.afterRollback(() => events.push('failed rollback'));
+          throw new Error('inner failed');
+        })
+      ).toThrow('inner failed');
+      tx.afterCommit(() => events.push('outer commit'));
+      events.push('outer callback');
+    });
+
+    expect(events).toEqual(['failed rollback', 'outer callback', 'inner commit', 'outer commit']);
+  });
+
+  it('runs nested afterRollback callbacks when the outer transaction rolls back', () => {
+    const events: string[] = [];
+
+    expect(() =>
+      db.transaction((tx) => {
+        tx.transaction((inner) => {
+          inner.afterCommit(() => events.push('inner commit'));
+          inner.afterRollback(() => events.push('inner rollback'));
+        });
+        throw new Error('failed');
+      })
+    ).toThrow('failed');
+
+    expect(events).toEqual(['inner rollback']);
+  });
+
+  it('reports callback errors without failing the transaction', () => {
+    const events: string[] = [];
+
+    db.transaction((tx) => {
+      tx.insert(lists).values({ name: 'Groceries' }).run();
+      tx.afterCommit(() => {
+        throw new Error('first failed');
+      });
+      tx.afterCommit(() => {
+        throw new Error('second failed');
+      });
+      tx.afterCommit(() => events.push('commit'));
+    });
+    expect(() =>
+      db.transaction((tx) => {
+        tx.afterRollback(() => {
+          throw new Error('cleanup failed');
+        });
+        throw new Error('transaction failed');
+      })
+    ).toThrow('transaction failed');
+
+    expect(events).toEqual(['commit']);
+    expect(callbackErrors.map((error) => (error as Error).message)).toEqual([
+      'first failed',
+      'second failed',
+      'cleanup failed'
+    ]);
+    expect(db.select().from(lists).all()).toHaveLength(1);
+  });
+});
+
+describe('OPSQLiteDatabase batch', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+  });
+
+  it('returns a tuple of results', () => {
+    const [inserted, run, rows, first] = db.batch([
+      db.insert(lists).values({ name: 'Groceries' }).returning({ id: lists.id }),
+      db.insert(todos).values({ description: 'Milk', list_id: 1 }),
+      db.select({ name: lists.name }).from(lists),
+      db.query.lists.findFirst({ with: { todos: true } })
+    ]);
+
+    expect(inserted).toEqual([{ id: 1 }]);
+    expect(run.changes).toBe(1);
+    expect(rows).toEqual([{ name: 'Groceries' }]);
+    expect(first?.todos).toEqual([{ id: 1, description: 'Milk', list_id: 1 }]);
+  });
+
+  it('rolls back every statement when one fails', () => {
+    expect(() =>
+      db.batch([
+        db.insert(lists).values({ id: 1, name: 'Groceries' }),
+        db.insert(lists).values({ id: 1, name: 'Duplicate' })
+      ])
+    ).toThrow();
+
+    expect(db.select().from(lists).all()).toEqual([]);
+  });
+});
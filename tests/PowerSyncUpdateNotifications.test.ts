@@ -0,0 +1,104 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  attachPowerSyncUpdateNotifications,
+  drizzle,
+  type OPSQLiteDatabase,
+  type PowerSyncBatchedUpdateNotification,
+  type PowerSyncUpdateNotification
+} from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { FakePowerSyncConnection } from './support/powersync.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+describe('attachPowerSyncUpdateNotifications', () => {
+  let client: DB;
+  let db: OPSQLiteDatabase<typeof schema>;
+  let notifications: PowerSyncBatchedUpdateNotification[];
+
+  const powersync = {
+    database: {
+      iterateListeners(
+        cb: (listener: { tablesUpdated?: (update: PowerSyncBatchedUpdateNotification) => void }) => any
+      ) {
+        cb({ tablesUpdated: (update) => notifications.push(update) });
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+    notifications = [];
+  });
+
+  it('notifies PowerSync listeners of committed changes', () => {
+    attachPowerSyncUpdateNotifications(powersync, client);
+
+    db.transaction((tx) => {
+      tx.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+      tx.insert(lists).values({ id: 2, name: 'Chores' }).run();
+    });
+
+    expect(notifications).toEqual([
+      {
+        rawUpdates: [
+          { table: 'lists', opType: 18, rowId: 1 },
+          { table: 'lists', opType: 18, rowId: 2 }
+        ],
+        tables: ['lists'],
+        groupedUpdates: {
+          lists: [
+            { table: 'lists', opType: 18, rowId: 1 },
+            { table: 'lists', opType: 18, rowId: 2 }
+          ]
+        }
+      }
+    ]);
+  });
+
+  it('discards changes of rolled back transactions', () => {
+    attachPowerSyncUpdateNotifications(powersync, client);
+
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+        tx.rollback();
+      })
+    ).toThrow();
+    db.delete(lists).run();
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(notifications.map((n) => n.rawUpdates)).toEqual([[{ table: 'lists', opType: 18, rowId: 2 }]]);
+  });
+
+  it('stops notifying after detaching', () => {
+    const detach = attachPowerSyncUpdateNotifications(powersync, client);
+    detach();
+
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+
+    expect(notifications).toEqual([]);
+  });
+
+  it("restores the hooks of PowerSync's write connection after detaching", () => {
+    const connection = new FakePowerSyncConnection(client, (update) => notifications.push(update));
+    const powersyncWithConnection = { database: { ...powersync.database, writeConnection: connection } };
+
+    const detach = attachPowerSyncUpdateNotifications(powersyncWithConnection);
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+    // Forwarded changes are not reported again by PowerSync
+    connection.flushUpdates();
+    detach();
+
+    // A write by PowerSync, which flushes its buffered updates once its write lock is released
+    client.executeSync(`insert into lists (id, name) values (2, 'Chores')`);
+    connection.flushUpdates();
+
+    expect(notifications.map((n) => n.rawUpdates)).toEqual([
+      [{ table: 'lists', opType: 18, rowId: 1 }],
+      [{ table: 'lists', opType: 18, rowId: 2 }]
+    ]);
+  });
+});
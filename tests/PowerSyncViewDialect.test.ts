@@ -0,0 +1,205 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { eq, sql } from 'drizzle-orm';
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+
+const lists = sqliteTable('lists', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  owner_id: text('owner_id')
+});
+
+const schema = { lists };
+
+// Mirrors the views and INSTEAD OF triggers PowerSync creates for synced tables
+const createViews = [
+  `create table ps_data__lists (id text primary key, data text)`,
+  `create view lists as select id,
+     cast(json_extract(data, '$.name') as text) as name,
+     cast(json_extract(data, '$.owner_id') as text) as owner_id
+   from ps_data__lists`,
+  `create trigger lists_insert instead of insert on lists begin
+     select case when new.id is null then raise(fail, 'id is required') end;
+     insert into ps_data__lists (id, data) values (new.id, json_object('name', new.name, 'owner_id', new.owner_id));
+   end`,
+  `create trigger lists_update instead of update on lists begin
+     update ps_data__lists set data = json_object('name', new.name, 'owner_id', new.owner_id) where id = old.id;
+   end`,
+  `create trigger lists_delete instead of delete on lists begin
+     delete from ps_data__lists where id = old.id;
+   end`
+];
+
+describe('PowerSync view emulation', () => {
+  let client: DB;
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const rows = () => db.select().from(lists).orderBy(lists.id).all();
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createViews.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema, powerSyncViews: { tables: [{ viewName: 'lists' }] } });
+    db.insert(lists).values({ id: 'a', name: 'Groceries', owner_id: 'user' }).run();
+  });
+
+  it('rejects upserts on views without the emulation', () => {
+    const plain = drizzle(client, { schema });
+
+    expect(() =>
+      plain
+        .insert(lists)
+        .values({ id: 'a', name: 'Chores' })
+        .onConflictDoUpdate({ target: lists.id, set: { name: 'Chores' } })
+        .run()
+    ).toThrow();
+  });
+
+  it('updates existing rows and inserts new ones', () => {
+    const result = db
+      .insert(lists)
+      .values([
+        { id: 'a', name: 'Chores', owner_id: 'other' },
+        { id: 'b', name: 'Errands', owner_id: 'other' }
+      ])
+      .onConflictDoUpdate({ target: lists.id, set: { name: sql`excluded.name` } })
+      .returning()
+      .all();
+
+    expect(result).toEqual([
+      { id: 'a', name: 'Chores', owner_id: 'user' },
+      { id: 'b', name: 'Errands', owner_id: 'other' }
+    ]);
+    expect(rows()).toEqual(result);
+  });
+
+  it('matches conflicts on the target columns and honours setWhere', () => {
+    const upsert = (name: string, ownerId: string) =>
+      db
+        .insert(lists)
+        .values({ id: 'new', name, owner_id: ownerId })
+        .onConflictDoUpdate({
+          target: lists.name,
+          set: { owner_id: sql`excluded.${sql.identifier('owner_id')}` },
+          setWhere: sql`${lists.owner_id} <> 'locked'`
+        })
+        .returning({ id: lists.id, owner_id: lists.owner_id })
+        .all();
+
+    expect(upsert('Groceries', 'locked')).toEqual([{ id: 'a', owner_id: 'locked' }]);
+    expect(upsert('Groceries', 'user')).toEqual([]);
+    expect(rows()).toEqual([{ id: 'a', name: 'Groceries', owner_id: 'locked' }]);
+  });
+
+  it('skips existing rows with onConflictDoNothing', () => {
+    const result = db
+      .insert(lists)
+      .values([
+        { id: 'a', name: 'Chores' },
+        { id: 'b', name: 'Errands' }
+      ])
+      .onConflictDoNothing({ target: lists.id })
+      .run();
+
+    expect(result.changes).toBe(1);
+    expect(rows().map((row) => row.name)).toEqual(['Groceries', 'Errands']);
+  });
+
+  it('emulates upserts inside transactions', () => {
+    db.transaction((tx) => {
+      tx.insert(lists)
+        .values({ id: 'a', name: 'Chores' })
+        .onConflictDoUpdate({ target: lists.id, set: { name: sql`excluded.name` } })
+        .run();
+    });
+
+    expect(rows().map((row) => row.name)).toEqual(['Chores']);
+  });
+
+  it('rejects conflict clauses it cannot emulate', () => {
+    const insert = () => db.insert(lists).values({ id: 'a', name: 'Chores' });
+
+    expect(() => insert().onConflictDoNothing().run()).toThrow(
+      'Upserts and returning() with conflict clauses without a target are not supported on the PowerSync view "lists"'
+    );
+    expect(() =>
+      insert()
+        .onConflictDoNothing({ target: lists.id, where: sql`${lists.owner_id} is null` })
+        .run()
+    ).toThrow('onConflictDoNothing({ where })');
+    expect(() =>
+      insert()
+        .onConflictDoUpdate({
+          target: lists.name,
+          targetWhere: sql`${lists.owner_id} is null`,
+          set: { name: 'Chores' }
+        })
+        .run()
+    ).toThrow('onConflictDoUpdate({ targetWhere })');
+    expect(() =>
+      insert()
+        .onConflictDoUpdate({ target: sql`lower(name)`, set: { name: 'Chores' } })
+        .run()
+    ).toThrow('conflict targets that are not columns');
+    expect(rows().map((row) => row.name)).toEqual(['Groceries']);
+  });
+
+  it('returns rows inserted with SQL generated ids', () => {
+    const [inserted] = db
+      .insert(lists)
+      .values({ id: sql`'generated-' || (select count(*) from lists)`, name: 'Chores' })
+      .returning({ id: lists.id, name: lists.name })
+      .all();
+
+    expect(inserted).toEqual({ id: 'generated-1', name: 'Chores' });
+  });
+
+  it('emulates returning() for updates and deletes', () => {
+    db.insert(lists).values({ id: 'b', name: 'Errands', owner_id: 'user' }).run();
+
+    const updated = db
+      .update(lists)
+      .set({ owner_id: 'other' })
+      .where(eq(lists.owner_id, 'user'))
+      .returning({ id: lists.id, owner_id: lists.owner_id })
+      .all();
+    const deleted = db.delete(lists).where(eq(lists.id, 'b')).returning().get();
+
+    expect(updated).toEqual([
+      { id: 'a', owner_id: 'other' },
+      { id: 'b', owner_id: 'other' }
+    ]);
+    expect(deleted).toEqual({ id: 'b', name: 'Errands', owner_id: 'other' });
+    expect(rows()).toEqual([{ id: 'a', name: 'Groceries', owner_id: 'other' }]);
+  });
+
+  it('applies prepared upserts with placeholders', () => {
+    const upsert = db
+      .insert(lists)
+      .values({ id: sql.placeholder('id'), name: sql.placeholder('name') })
+      .onConflictDoUpdate({ target: lists.id, set: { name: sql`excluded.name` } })
+      .returning({ name: lists.name })
+      .prepare();
+
+    expect(upsert.all({ id: 'a', name: 'Chores' })).toEqual([{ name: 'Chores' }]);
+    expect(upsert.all({ id: 'b', name: 'Errands' })).toEqual([{ name: 'Errands' }]);
+    expect(rows().map((row) => row.name)).toEqual(['Chores', 'Errands']);
+  });
+
+  it('rolls back every row when one of them fails', () => {
+    expect(() =>
+      db
+        .insert(lists)
+        .values([
+          { id: 'b', name: 'Errands' },
+          { id: sql`null`, name: 'Invalid' }
+        ])
+        .returning()
+        .all()
+    ).toThrow('id is required');
+
+    expect(rows().map((row) => row.id)).toEqual(['a']);
+  });
+});
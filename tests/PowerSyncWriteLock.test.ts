@@ -0,0 +1,155 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  attachPowerSyncWriteLock,
+  drizzle,
+  drizzleInWriteTransaction,
+  type OPSQLiteDatabase,
+  OPSQLiteWriteLockError,
+  isWriteLockError,
+  type PowerSyncWriteLock
+} from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+/**
+ * Stand-in for PowerSync's adapter, which runs write lock callbacks one at a time.
+ */
+class FakePowerSyncAdapter {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private client: DB) {}
+
+  writeLock<T>(callback: (context: unknown) => Promise<T>): Promise<T> {
+    const result = this.queue.then(() => callback({}));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  writeTransaction<T>(callback: (context: unknown) => Promise<T>): Promise<T> {
+    return this.writeLock(async (context) => {
+      await this.client.execute('begin');
+      try {
+        const result = await callback(context);
+        await this.client.execute('commit');
+        return result;
+      } catch (err) {
+        await this.client.execute('rollback');
+        throw err;
+      }
+    });
+  }
+}
+
+function catchError(callback: () => unknown): unknown {
+  try {
+    callback();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected the callback to throw');
+}
+
+describe('PowerSyncWriteLock', () => {
+  let client: DB;
+  let adapter: FakePowerSyncAdapter;
+  let writeLock: PowerSyncWriteLock;
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const listNames = () =>
+    db
+      .select({ name: lists.name })
+      .from(lists)
+      .orderBy(lists.id)
+      .all()
+      .map((row) => row.name);
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    adapter = new FakePowerSyncAdapter(client);
+    writeLock = attachPowerSyncWriteLock({ database: adapter });
+    db = drizzle(client, { schema, writeLock });
+  });
+
+  it('fails writes and transactions while PowerSync holds the lock', async () => {
+    let release!: () => void;
+    const held = adapter.writeLock(() => new Promise<void>((resolve) => (release = resolve)));
+    await Promise.resolve();
+
+    expect(writeLock.isHeld).toBe(true);
+    expect(() => db.insert(lists).values({ name: 'Groceries' }).run()).toThrow(OPSQLiteWriteLockError);
+    // Raw SQL errors are wrapped in a DrizzleError by drizzle
+    expect(() => db.run(sql`delete from lists`)).toThrow('Failed to run the query');
+    expect(isWriteLockError(catchError(() => db.run(sql`delete from lists`)))).toBe(true);
+    expect(isWriteLockError(catchError(() => db.insert(lists).values({ name: 'Groceries' }).run()))).toBe(true);
+    expect(() => db.transaction(() => {})).toThrow(OPSQLiteWriteLockError);
+    expect(listNames()).toEqual([]);
+
+    release();
+    await held;
+
+    expect(writeLock.isHeld).toBe(false);
+    expect(isWriteLockError(catchError(() => db.run(sql`delete from missing`)))).toBe(false);
+    db.insert(lists).values({ name: 'Groceries' }).run();
+    expect(listNames()).toEqual(['Groceries']);
+  });
+
+  it('defers writes with runExclusive until PowerSync releases the lock', async () => {
+    const events: string[] = [];
+    let release!: () => void;
+    const held = adapter.writeLock(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      events.push('powersync');
+    });
+
+    const deferred = writeLock.runExclusive(() => {
+      events.push('sync');
+      return db.insert(lists).values({ name: 'Groceries' }).run();
+    });
+    await Promise.resolve();
+    release();
+
+    await expect(deferred).resolves.toEqual({ changes: 1, lastInsertRowid: 1 });
+    await held;
+    expect(events).toEqual(['powersync', 'sync']);
+    expect(listNames()).toEqual(['Groceries']);
+  });
+
+  it('stops tracking the lock after detaching', async () => {
+    writeLock.detach();
+
+    await adapter.writeLock(async () => {
+      db.insert(lists).values({ name: 'Groceries' }).run();
+    });
+
+    expect(listNames()).toEqual(['Groceries']);
+  });
+
+  it('writes inside PowerSync transactions with drizzleInWriteTransaction', async () => {
+    await adapter.writeTransaction(async () => {
+      const txDb = drizzleInWriteTransaction(client, { schema });
+      txDb.insert(lists).values({ name: 'Outer' }).run();
+      expect(() =>
+        txDb.transaction((tx) => {
+          tx.insert(lists).values({ name: 'Inner' }).run();
+          throw new Error('inner failed');
+        })
+      ).toThrow('inner failed');
+      txDb.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Second' }).run();
+      });
+      await client.execute(`insert into lists (name) values ('PowerSync')`);
+    });
+    expect(listNames()).toEqual(['Outer', 'Second', 'PowerSync']);
+
+    await expect(
+      adapter.writeTransaction(async () => {
+        drizzleInWriteTransaction(client, { schema }).insert(lists).values({ name: 'Discarded' }).run();
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+    expect(listNames()).toEqual(['Outer', 'Second', 'PowerSync']);
+  });
+});
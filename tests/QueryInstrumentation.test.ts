@@ -0,0 +1,66 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { sql } from 'drizzle-orm';
+import { DefaultLogger } from 'drizzle-orm/logger';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { drizzle, type OPSQLiteLogger, type QueryReport } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists } from './support/schema.js';
+
+describe('instrumentation', () => {
+  let client: DB;
+  let reports: QueryReport[];
+  const logger: OPSQLiteLogger = { logQuery: () => {}, logQueryReport: (report) => reports.push(report) };
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    reports = [];
+  });
+
+  it('reports the method, duration and row count of every statement', () => {
+    const db = drizzle(client, { logger, instrumentation: true });
+
+    db.insert(lists)
+      .values([{ name: 'Groceries' }, { name: 'Chores' }])
+      .run();
+    db.select().from(lists).all();
+    db.select().from(lists).get();
+    db.select().from(lists).values();
+
+    expect(reports.map(({ method, rowCount, slow }) => ({ method, rowCount, slow }))).toEqual([
+      { method: 'run', rowCount: 2, slow: false },
+      { method: 'all', rowCount: 2, slow: false },
+      { method: 'get', rowCount: 1, slow: false },
+      { method: 'values', rowCount: 2, slow: false }
+    ]);
+    expect(reports[1]).toMatchObject({ query: expect.stringContaining('from "lists"'), params: [] });
+    expect(reports.every((report) => report.duration >= 0 && report.queryPlan === undefined)).toBe(true);
+  });
+
+  it('attaches the query plan of slow statements', () => {
+    const db = drizzle(client, { logger, instrumentation: { slowQueryThreshold: 0, explainSlowQueries: true } });
+
+    db.select()
+      .from(lists)
+      .where(sql`name = ${'Groceries'}`)
+      .all();
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].slow).toBe(true);
+    expect(reports[0].queryPlan).toEqual([
+      { id: expect.any(Number), parent: 0, detail: expect.stringMatching(/SCAN lists/) }
+    ]);
+  });
+
+  it('writes slow statements to the default logger', () => {
+    const write = vi.fn();
+    const db = drizzle(client, {
+      logger: new DefaultLogger({ writer: { write } }),
+      instrumentation: { slowQueryThreshold: 0 }
+    });
+
+    db.select().from(lists).all();
+
+    expect(write).toHaveBeenLastCalledWith(expect.stringMatching(/^Slow query \([\d.]+ms, all, 0 rows\): select/));
+  });
+});
@@ -0,0 +1,73 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+describe('reader routing', () => {
+  let writer: DB;
+  let readers: DB[];
+
+  // Each in-memory connection is a separate database, so the data shows which connection served a query
+  const openConnection = async (name: string) => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    client.executeSync('insert into lists (name) values (?)', [name]);
+    return client;
+  };
+
+  beforeEach(async () => {
+    writer = await openConnection('writer');
+    readers = [await openConnection('reader 1'), await openConnection('reader 2')];
+  });
+
+  const selectName = (db: ReturnType<typeof drizzle<typeof schema>>) =>
+    db.select({ name: lists.name }).from(lists).get()?.name;
+
+  it('routes selects to the readers in turn', () => {
+    const db = drizzle({ writer, readers }, { schema });
+
+    expect([selectName(db), selectName(db), selectName(db)]).toEqual(['reader 1', 'reader 2', 'reader 1']);
+    expect(db.query.lists.findFirst().sync()?.name).toBe('reader 2');
+    expect(db.$client).toBe(writer);
+  });
+
+  it('picks the least recently used reader', () => {
+    const db = drizzle({ writer, readers, readerSelection: 'least-recently-used' }, { schema });
+
+    expect([selectName(db), selectName(db), selectName(db)]).toEqual(['reader 1', 'reader 2', 'reader 1']);
+  });
+
+  it('routes writes, returning() and raw SQL to the writer', () => {
+    const db = drizzle({ writer, readers }, { schema });
+
+    db.insert(lists).values({ name: 'inserted' }).run();
+    expect(db.update(lists).set({ archived: true }).returning({ name: lists.name }).all()).toEqual([
+      { name: 'writer' },
+      { name: 'inserted' }
+    ]);
+    expect(db.all(sql`select name from lists`)).toEqual([{ name: 'writer' }, { name: 'inserted' }]);
+  });
+
+  it('runs everything inside transactions on the writer', () => {
+    const db = drizzle({ writer, readers }, { schema });
+
+    const name = db.transaction((tx) => tx.select({ name: lists.name }).from(lists).get()?.name);
+
+    expect(name).toBe('writer');
+  });
+
+  it('runs batches on the writer, so that selects see writes made earlier in the batch', () => {
+    const db = drizzle({ writer, readers }, { schema });
+
+    const [, rows, found] = db.batch([
+      db.insert(lists).values({ name: 'batched' }),
+      db.select({ name: lists.name }).from(lists),
+      db.query.lists.findMany({ columns: { name: true } })
+    ]);
+
+    expect(rows).toEqual([{ name: 'writer' }, { name: 'batched' }]);
+    expect(found).toEqual(rows);
+  });
+});
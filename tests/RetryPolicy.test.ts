@@ -0,0 +1,112 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { DefaultLogger } from 'drizzle-orm/logger';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { drizzle, type RetryEvent, type OPSQLiteLogger } from '../src/index.js';
+import { getSQLiteErrorCode } from '../src/sqlite/errors.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists } from './support/schema.js';
+
+const lockedError = () => new Error('[op-sqlite] SQLite code: 5 execution error: database is locked');
+
+describe('retry', () => {
+  let client: DB;
+  let retries: RetryEvent[];
+
+  const logger: OPSQLiteLogger = { logQuery: () => {}, logRetry: (event) => retries.push(event) };
+  const createDb = (maxAttempts = 3) => drizzle(client, { retry: { maxAttempts, backoff: () => 0 }, logger });
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    retries = [];
+  });
+
+  it('retries locked statements and reports them to the logger', () => {
+    const db = createDb();
+    const executeRaw = vi.spyOn(client, 'executeRawSync').mockImplementationOnce(() => {
+      throw lockedError();
+    });
+
+    expect(db.select().from(lists).all()).toEqual([]);
+    expect(executeRaw).toHaveBeenCalledTimes(2);
+    expect(retries).toEqual([
+      { query: expect.stringContaining('from "lists"'), retry: 1, delay: 0, error: expect.any(Error) }
+    ]);
+  });
+
+  it('gives up after the maximum number of attempts', () => {
+    const db = createDb(2);
+    const executeRaw = vi.spyOn(client, 'executeRawSync').mockImplementation(() => {
+      throw lockedError();
+    });
+
+    expect(() => db.select().from(lists).all()).toThrow('database is locked');
+    expect(executeRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other errors', () => {
+    const db = createDb();
+
+    expect(() =>
+      db
+        .insert(lists)
+        .values([
+          { id: 1, name: 'A' },
+          { id: 1, name: 'B' }
+        ])
+        .run()
+    ).toThrow();
+    expect(retries).toEqual([]);
+  });
+
+  it('stops retrying when the timeout is exceeded', () => {
+    const db = drizzle(client, { retry: { backoff: () => 50, timeout: 20 } });
+    const executeRaw = vi.spyOn(client, 'executeRawSync').mockImplementation(() => {
+      throw lockedError();
+    });
+
+    expect(() => db.select().from(lists).all()).toThrow('database is locked');
+    expect(executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries beginning a transaction', () => {
+    const db = createDb();
+    const executeSync = client.executeSync;
+    vi.spyOn(client, 'executeSync').mockImplementationOnce(() => {
+      throw lockedError();
+    });
+
+    db.transaction((tx) => tx.insert(lists).values({ name: 'Groceries' }).run(), { behavior: 'immediate' });
+
+    expect(retries.map((event) => event.query)).toEqual(['begin immediate']);
+    expect(executeSync('select name from lists').rows).toEqual([{ name: 'Groceries' }]);
+  });
+
+  it('writes retries to the default logger', () => {
+    const write = vi.fn();
+    const db = drizzle(client, { retry: { backoff: () => 0 }, logger: new DefaultLogger({ writer: { write } }) });
+    vi.spyOn(client, 'executeRawSync').mockImplementationOnce(() => {
+      throw lockedError();
+    });
+
+    db.select().from(lists).all();
+
+    expect(write).toHaveBeenCalledWith(expect.stringMatching(/^Retry 1 in 0ms \(.*database is locked\)/));
+  });
+});
+
+describe('getSQLiteErrorCode', () => {
+  it('reads codes from driver errors', () => {
+    expect(getSQLiteErrorCode(lockedError())).toBe('SQLITE_BUSY');
+    expect(getSQLiteErrorCode(Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY_SNAPSHOT' }))).toBe(
+      'SQLITE_BUSY'
+    );
+    expect(getSQLiteErrorCode(Object.assign(new Error('locked'), { code: 'ERR_SQLITE_ERROR', errcode: 262 }))).toBe(
+      'SQLITE_LOCKED'
+    );
+    expect(
+      getSQLiteErrorCode(Object.assign(new Error('wrapped'), { cause: new Error('database table is locked') }))
+    ).toBe('SQLITE_LOCKED');
+    expect(getSQLiteErrorCode(new Error('no such table: missing'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { eq, sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  createOPSQLiteClient,
+  drizzle,
+  type OPSQLiteDatabase,
+  type SyncSQLiteClient,
+  type SyncSQLiteStatement
+} from '../src/index.js';
+import { OPSQLitePreparedQuery } from '../src/sqlite/OPSQLitePreparedQuery.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+/**
+ * Adds prepared statements to the op-sqlite stand-in and records their lifecycle.
+ */
+function createPreparingClient(db: DB) {
+  const client = createOPSQLiteClient(db);
+  const prepared: string[] = [];
+  const finalized: string[] = [];
+
+  const preparingClient: SyncSQLiteClient = {
+    ...client,
+    prepare(query): SyncSQLiteStatement {
+      prepared.push(query);
+      let isFinalized = false;
+      const assertActive = () => {
+        if (isFinalized) {
+          throw new Error('Statement is finalized');
+        }
+      };
+      return {
+        execute: (params) => (assertActive(), client.execute(query, params)),
+        executeRaw: (params) => (assertActive(), client.executeRaw(query, params)),
+        run: (params) => (assertActive(), client.run(query, params)),
+        finalize: () => {
+          isFinalized = true;
+          finalized.push(query);
+        }
+      };
+    }
+  };
+
+  return { client: preparingClient, prepared, finalized };
+}
+
+describe('statement cache', () => {
+  let opSqlite: DB;
+
+  beforeEach(async () => {
+    opSqlite = await openOPSQLite();
+    createTables.forEach((statement) => opSqlite.executeSync(statement));
+  });
+
+  it('reuses prepared statements for repeated queries', () => {
+    const { client, prepared } = createPreparingClient(opSqlite);
+    const db = drizzle(client, { schema });
+
+    const query = db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, sql.placeholder('id')))
+      .prepare();
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(query.get({ id: 1 })).toMatchObject({ name: 'Groceries' });
+    expect(query.get({ id: 2 })).toMatchObject({ name: 'Chores' });
+    expect(db.select().from(lists).where(eq(lists.id, 2)).all()).toHaveLength(1);
+    expect(prepared.filter((statement) => statement.startsWith('select'))).toHaveLength(1);
+    expect(prepared.filter((statement) => statement.startsWith('insert'))).toHaveLength(1);
+  });
+
+  it('shares statements with transactions', () => {
+    const { client, prepared } = createPreparingClient(opSqlite);
+    const db = drizzle(client, { schema });
+
+    db.select().from(lists).all();
+    db.transaction((tx) => tx.select().from(lists).all());
+
+    expect(prepared).toHaveLength(1);
+  });
+
+  it('evicts and finalizes the least recently used statements', () => {
+    const { client, prepared, finalized } = createPreparingClient(opSqlite);
+    const db = drizzle(client, { schema, statementCacheSize: 2 });
+
+    db.select({ id: lists.id }).from(lists).all();
+    db.select({ name: lists.name }).from(lists).all();
+    db.select({ id: lists.id }).from(lists).all();
+    db.select({ archived: lists.archived }).from(lists).all();
+
+    expect(finalized).toEqual(['select "name" from "lists"']);
+    db.select({ name: lists.name }).from(lists).all();
+    expect(prepared).toHaveLength(4);
+  });
+
+  it('finalizes statements explicitly', () => {
+    const { client, prepared, finalized } = createPreparingClient(opSqlite);
+    const db: OPSQLiteDatabase<typeof schema> = drizzle(client, { schema });
+    const query = db.select().from(lists).prepare() as unknown as OPSQLitePreparedQuery;
+
+    query.all();
+    query.finalize();
+    query.all();
+
+    expect(finalized).toEqual(['select "id", "name", "archived" from "lists"']);
+    expect(prepared).toHaveLength(2);
+  });
+
+  it('executes SQL directly when caching is disabled', () => {
+    const { client, prepared } = createPreparingClient(opSqlite);
+    const db = drizzle(client, { schema, statementCacheSize: 0 });
+
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+
+    expect(db.select().from(lists).all()).toHaveLength(1);
+    expect(prepared).toEqual([]);
+  });
+
+  it('rejects a cache size for op-sqlite connections', () => {
+    const { client } = createPreparingClient(opSqlite);
+
+    expect(() => drizzle(opSqlite, { statementCacheSize: 10 })).toThrow('statementCacheSize requires clients');
+    expect(() =>
+      drizzle({ writer: client, readers: [createOPSQLiteClient(opSqlite)] }, { statementCacheSize: 10 })
+    ).toThrow('op-sqlite only executes prepared statements asynchronously');
+    expect(() => drizzle(opSqlite, { statementCacheSize: 0 })).not.toThrow();
+  });
+});
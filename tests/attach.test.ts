@@ -0,0 +1,175 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+import { integer, text } from 'drizzle-orm/sqlite-core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { attachedSchema, createBetterSQLite3Client, drizzle } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+const catalog = attachedSchema('catalog');
+
+const products = catalog.table('products', {
+  id: integer('id').primaryKey(),
+  list_id: integer('list_id'),
+  name: text('name').notNull()
+});
+
+// sql.js connections share an in-memory file system, so every connection of a test opens the same catalog file
+let catalogCount = 0;
+
+describe('attached databases', () => {
+  let client: DB;
+  let name: string;
+
+  const openConnection = async () => {
+    const connection = await openOPSQLite();
+    createTables.forEach((statement) => connection.executeSync(statement));
+    return connection;
+  };
+
+  beforeEach(async () => {
+    client = await openConnection();
+    client.executeSync(`insert into lists (name) values ('Groceries'), ('Chores')`);
+    name = `catalog-${++catalogCount}.db`;
+
+    const catalogClient = await openOPSQLite();
+    catalogClient.executeSync(`attach database '/${name}' as catalog`);
+    catalogClient.executeSync(
+      `create table catalog.products (id integer primary key, list_id integer, name text not null)`
+    );
+    catalogClient.executeSync(`insert into catalog.products (list_id, name) values (1, 'Milk'), (null, 'Soap')`);
+    catalogClient.executeSync(`detach database catalog`);
+  });
+
+  it('joins tables of the attached database with the main database', () => {
+    const db = drizzle(client, { schema });
+    db.$attach('catalog', name);
+
+    const query = db.select().from(products).leftJoin(lists, eq(products.list_id, lists.id)).orderBy(products.id);
+
+    expect(query.toSQL().sql).toContain('from "catalog"."products" left join "lists"');
+    expect(query.all()).toEqual([
+      { products: { id: 1, list_id: 1, name: 'Milk' }, lists: { id: 1, name: 'Groceries', archived: false } },
+      { products: { id: 2, list_id: null, name: 'Soap' }, lists: null }
+    ]);
+    expect(db.select({ name: products.name }).from(products).where(eq(products.name, 'Soap')).get()).toEqual({
+      name: 'Soap'
+    });
+  });
+
+  it('attaches to the read connections and detaches from every connection', async () => {
+    const readers = [await openConnection(), await openConnection()];
+    const db = drizzle({ writer: client, readers }, { schema });
+    db.$attach('catalog', name);
+
+    const productNames = () =>
+      db
+        .select({ name: products.name })
+        .from(products)
+        .orderBy(products.id)
+        .all()
+        .map((row) => row.name);
+
+    // Once on each reader
+    expect(productNames()).toEqual(['Milk', 'Soap']);
+    expect(productNames()).toEqual(['Milk', 'Soap']);
+    expect(db.$attachments).toEqual({ catalog: name });
+
+    db.$detach('catalog');
+
+    expect(db.$attachments).toEqual({});
+    [client, ...readers].forEach((connection) =>
+      expect(() => connection.executeSync('select * from catalog.products')).toThrow()
+    );
+  });
+
+  it('attaches the databases passed as attachments', async () => {
+    const db = drizzle(await openConnection(), { schema, attachments: { catalog: name } });
+
+    expect(db.select({ name: products.name }).from(products).all()).toEqual([{ name: 'Milk' }, { name: 'Soap' }]);
+    expect(db.$attachments).toEqual({ catalog: name });
+  });
+
+  it('detaches from every connection when one of them fails to attach', async () => {
+    const reader = await openConnection();
+    reader.executeSync(`attach database ':memory:' as catalog`);
+    const db = drizzle({ writer: client, readers: [reader] }, { schema });
+
+    expect(() => db.$attach('catalog', name)).toThrow('catalog is already in use');
+
+    expect(db.$attachments).toEqual({});
+    expect(() => client.executeSync('select * from catalog.products')).toThrow();
+  });
+
+  it('attaches with op-sqlite on op-sqlite connections', () => {
+    const attach = vi.spyOn(client, 'attach');
+    const detach = vi.spyOn(client, 'detach');
+    const db = drizzle(client, { schema });
+
+    db.$attach('catalog', { name, location: '' });
+    expect(db.select({ name: products.name }).from(products).all()).toHaveLength(2);
+    db.$detach('catalog');
+
+    expect(attach).toHaveBeenCalledWith({ secondaryDbFileName: name, alias: 'catalog', location: '' });
+    expect(detach).toHaveBeenCalledWith('catalog');
+    expect(() => db.$attach('my catalog', name)).toThrow('only attach databases under plain identifiers');
+  });
+
+  it('attaches with ATTACH DATABASE on other clients', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'attach-'));
+    const catalogDb = new Database(join(directory, 'catalog.db'));
+    catalogDb.exec(`create table products (id integer primary key, list_id integer, name text not null)`);
+    catalogDb.exec(`insert into products (name) values ('Milk')`);
+    catalogDb.close();
+    const connection = new Database(':memory:');
+    const db = drizzle(createBetterSQLite3Client(connection), { schema });
+
+    try {
+      db.$attach('catalog', { name: 'catalog.db', location: directory });
+      expect(db.select({ name: products.name }).from(products).all()).toEqual([{ name: 'Milk' }]);
+      db.$detach('catalog');
+      expect(() => db.select().from(products).all()).toThrow();
+    } finally {
+      connection.close();
+      rmSync(directory, { recursive: true });
+    }
+  });
+
+  it('restores attachments when the database file is opened again', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'attach-'));
+    const catalogDb = new Database(join(directory, 'catalog.db'));
+    catalogDb.exec(`create table products (id integer primary key, list_id integer, name text not null)`);
+    catalogDb.exec(`insert into products (name) values ('Milk')`);
+    catalogDb.close();
+    const open = () => {
+      const connection = new Database(join(directory, 'main.db'));
+      return { connection, db: drizzle(createBetterSQLite3Client(connection), { schema }) };
+    };
+
+    try {
+      const first = open();
+      first.db.$attach('catalog', { name: 'catalog.db', location: directory });
+      first.connection.close();
+
+      const reopened = open();
+      expect(reopened.db.select({ name: products.name }).from(products).all()).toEqual([{ name: 'Milk' }]);
+      expect(reopened.db.$attachments).toEqual({ catalog: { name: 'catalog.db', location: directory } });
+      // A second database on the same connection keeps the existing attachment
+      expect(drizzle(createBetterSQLite3Client(reopened.connection), { schema }).$attachments).toEqual(
+        reopened.db.$attachments
+      );
+      reopened.db.$detach('catalog');
+      reopened.connection.close();
+
+      const detached = open();
+      expect(() => detached.db.select().from(products).all()).toThrow();
+      detached.connection.close();
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import Database from 'better-sqlite3';
+import { eq, sql } from 'drizzle-orm';
+import { customType, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  bm25,
+  createBetterSQLite3Client,
+  drizzle,
+  fts5RebuildStatement,
+  fts5Statements,
+  fts5Table,
+  highlight,
+  match,
+  type OPSQLiteDatabase,
+  snippet
+} from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+const trimmedText = customType<{ data: string; driverData: string }>({
+  dataType: () => 'text',
+  fromDriver: (value) => value.trim()
+});
+
+const listsSearch = fts5Table(
+  'lists_search',
+  { name: trimmedText('name'), notes: text('notes') },
+  { content: lists, contentRowid: lists.id, tokenize: 'porter unicode61', prefix: [2, 3], unindexed: ['notes'] }
+);
+
+describe('fts5', () => {
+  let client: DB;
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+  });
+
+  it('creates the table and the triggers that sync it with the content table', () => {
+    expect(fts5Statements(listsSearch)).toEqual([
+      `create virtual table if not exists "lists_search" using fts5("name", "notes" unindexed, content='lists', content_rowid='id', tokenize='porter unicode61', prefix='2 3')`,
+      `create trigger if not exists "lists_search_after_insert" after insert on "lists" begin insert into "lists_search" (rowid, "name", "notes") values (new."id", new."name", new."notes"); end`,
+      `create trigger if not exists "lists_search_after_delete" after delete on "lists" begin insert into "lists_search" ("lists_search", rowid, "name", "notes") values ('delete', old."id", old."name", old."notes"); end`,
+      `create trigger if not exists "lists_search_after_update" after update on "lists" begin insert into "lists_search" ("lists_search", rowid, "name", "notes") values ('delete', old."id", old."name", old."notes"); insert into "lists_search" (rowid, "name", "notes") values (new."id", new."name", new."notes"); end`
+    ]);
+    expect(fts5RebuildStatement(listsSearch)).toBe(`insert into "lists_search" ("lists_search") values ('rebuild')`);
+
+    const notes = fts5Table('notes', { body: text('body') });
+    expect(fts5Statements(notes)).toEqual([`create virtual table if not exists "notes" using fts5("body")`]);
+    expect(() => fts5RebuildStatement(notes)).toThrow('The FTS5 table "notes" has no content table to rebuild from');
+  });
+
+  it('names columns defined without a name with the casing of drizzle()', () => {
+    const notes = sqliteTable('notes', { noteId: integer().primaryKey(), noteBody: text(), noteTags: text() });
+    const notesSearch = fts5Table(
+      'notes_search',
+      { noteBody: text(), noteTags: text() },
+      { content: notes, contentRowid: notes.noteId, unindexed: ['noteTags'] }
+    );
+    const db = drizzle(client, { casing: 'snake_case' });
+
+    expect(fts5Statements(notesSearch, { casing: 'snake_case' }).slice(0, 2)).toEqual([
+      `create virtual table if not exists "notes_search" using fts5("note_body", "note_tags" unindexed, content='notes', content_rowid='note_id')`,
+      `create trigger if not exists "notes_search_after_insert" after insert on "notes" begin insert into "notes_search" (rowid, "note_body", "note_tags") values (new."note_id", new."note_body", new."note_tags"); end`
+    ]);
+    expect(db.select({ body: notesSearch.noteBody }).from(notesSearch).toSQL().sql).toBe(
+      'select "note_body" from "notes_search"'
+    );
+  });
+
+  it('compiles match and ranking expressions', () => {
+    const db = drizzle(client, { schema });
+
+    const query = db
+      .select({
+        id: lists.id,
+        rank: bm25(listsSearch, 10, 1),
+        name: highlight(listsSearch.name, '<b>', '</b>'),
+        notes: snippet(listsSearch, { open: '[', close: ']', ellipsis: '…', maxTokens: 8 })
+      })
+      .from(listsSearch)
+      .innerJoin(lists, eq(lists.id, listsSearch.rowid))
+      .where(match(listsSearch, 'groc*'))
+      .orderBy(bm25(listsSearch));
+
+    expect(query.toSQL()).toEqual({
+      sql:
+        'select "lists"."id", bm25("lists_search", 10, 1), highlight("lists_search", 0, ?, ?), ' +
+        'snippet("lists_search", -1, ?, ?, ?, 8) from "lists_search" ' +
+        'inner join "lists" on "lists"."id" = "lists_search"."rowid" ' +
+        'where "lists_search" match ? order by bm25("lists_search")',
+      params: ['<b>', '</b>', '[', ']', '…', 'groc*']
+    });
+    expect(db.select().from(listsSearch).where(match(listsSearch.notes, 'milk')).toSQL().sql).toBe(
+      'select "rowid", "name", "notes" from "lists_search" where "lists_search"."notes" match ?'
+    );
+  });
+
+  it('rejects invalid weights and snippet lengths', () => {
+    const snippetOf = (maxTokens: number) => snippet(listsSearch, { open: '', close: '', ellipsis: '', maxTokens });
+
+    expect(() => bm25(listsSearch, 1, Number.NaN)).toThrow('Invalid bm25 weight: NaN');
+    expect(() => bm25(listsSearch, Infinity)).toThrow('Invalid bm25 weight: Infinity');
+    expect(() => bm25(listsSearch, '1) or (1' as unknown as number)).toThrow('Invalid bm25 weight');
+    expect(() => snippetOf(0)).toThrow('Invalid snippet maxTokens: 0');
+    expect(() => snippetOf(65)).toThrow('Invalid snippet maxTokens: 65');
+    expect(() => snippetOf(2.5)).toThrow('Invalid snippet maxTokens: 2.5');
+    expect(() => snippetOf(64)).not.toThrow();
+  });
+
+  it('rejects tables that are not FTS5 tables', () => {
+    expect(() => match(lists, 'groceries')).toThrow('The table "lists" is not defined with fts5Table()');
+    expect(() => highlight(lists.name, '<b>', '</b>')).toThrow('not defined with fts5Table()');
+  });
+});
+
+// sql.js is built without FTS5, so the queries are run on better-sqlite3
+describe('fts5 on better-sqlite3', () => {
+  const namesSearch = fts5Table(
+    'lists_search',
+    { name: trimmedText('name') },
+    { content: lists, contentRowid: lists.id }
+  );
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const search = (query: string) =>
+    db
+      .select({ id: lists.id })
+      .from(namesSearch)
+      .innerJoin(lists, eq(lists.id, namesSearch.rowid))
+      .where(match(namesSearch, query))
+      .orderBy(lists.id)
+      .all()
+      .map((row) => row.id);
+
+  beforeEach(() => {
+    const connection = new Database(':memory:');
+    createTables.forEach((statement) => connection.exec(statement));
+    db = drizzle(createBetterSQLite3Client(connection), { schema });
+  });
+
+  it('keeps the index in sync with the content table', () => {
+    db.insert(lists)
+      .values([{ name: 'Groceries' }, { name: 'Garden tools' }])
+      .run();
+    db.$executeScript(fts5Statements(namesSearch).join(';\n'));
+
+    // Rows inserted before the table was created are only indexed by a rebuild
+    expect(search('groceries')).toEqual([]);
+    db.run(sql.raw(fts5RebuildStatement(namesSearch)));
+    expect(search('groceries')).toEqual([1]);
+
+    db.insert(lists).values({ name: 'Hardware store' }).run();
+    db.update(lists).set({ name: 'Garden plants' }).where(eq(lists.id, 2)).run();
+    db.delete(lists).where(eq(lists.id, 1)).run();
+    // Running the statements again leaves the table and its triggers as they are
+    db.$executeScript(fts5Statements(namesSearch).join(';\n'));
+
+    expect(search('groceries')).toEqual([]);
+    expect(search('tools')).toEqual([]);
+    expect(search('garden')).toEqual([2]);
+    expect(search('hard*')).toEqual([3]);
+  });
+
+  it('ranks, highlights and snippets matches', () => {
+    db.$executeScript(fts5Statements(namesSearch).join(';\n'));
+    db.insert(lists)
+      .values([{ name: 'Milk and bread' }, { name: 'Milk, milk and more milk for the whole family this week' }])
+      .run();
+
+    const results = db
+      .select({
+        id: lists.id,
+        rank: bm25(namesSearch, 2),
+        name: highlight(namesSearch.name, ' <b>', '</b> '),
+        excerpt: snippet(namesSearch, { open: '[', close: ']', ellipsis: '…', maxTokens: 4 })
+      })
+      .from(namesSearch)
+      .innerJoin(lists, eq(lists.id, namesSearch.rowid))
+      .where(match(namesSearch, 'milk'))
+      .orderBy(bm25(namesSearch, 2))
+      .all();
+
+    expect(results.map((row) => row.id)).toEqual([2, 1]);
+    expect(results[0]!.rank).toBeLessThan(results[1]!.rank);
+    expect(typeof results[0]!.rank).toBe('number');
+    // Decoded by the trimming column
+    expect(results[1]!.name).toBe('<b>Milk</b>  and bread');
+    expect(results[0]!.excerpt).toBe('[Milk], [milk] and more…');
+  });
+});
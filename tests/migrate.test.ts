@@ -0,0 +1,81 @@
+import { createHash } from 'node:crypto';
+import { sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, migrate, type MigrationBundle, type OPSQLiteDatabase } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+
+const m0000 = `CREATE TABLE \`lists\` (
+  \`id\` integer PRIMARY KEY NOT NULL,
+  \`name\` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX \`lists_name\` ON \`lists\` (\`name\`);`;
+
+const m0001 = `ALTER TABLE \`lists\` ADD \`owner_id\` text;`;
+
+const m0002 = `CREATE TABLE \`todos\` (\`id\` integer PRIMARY KEY NOT NULL);
+--> statement-breakpoint
+INSERT INTO \`missing\` VALUES (1);`;
+
+function bundle(...migrations: string[]): MigrationBundle {
+  return {
+    journal: {
+      entries: migrations.map((_, idx) => ({
+        idx,
+        when: 1700000000000 + idx,
+        tag: `000${idx}_migration`,
+        breakpoints: true
+      }))
+    },
+    migrations: Object.fromEntries(migrations.map((migration, idx) => [`m000${idx}`, migration]))
+  };
+}
+
+describe('migrate', () => {
+  let db: OPSQLiteDatabase;
+
+  const tableNames = () =>
+    db.values<[string]>(sql`select name from sqlite_master where type = 'table' order by name`).map(([name]) => name);
+
+  beforeEach(async () => {
+    db = drizzle(await openOPSQLite());
+  });
+
+  it('applies migrations and records their hashes', () => {
+    migrate(db, bundle(m0000, m0001));
+
+    expect(tableNames()).toEqual(['__drizzle_migrations', 'lists']);
+    expect(db.values(sql`select hash, created_at from __drizzle_migrations order by created_at`)).toEqual([
+      [createHash('sha256').update(m0000).digest('hex'), 1700000000000],
+      [createHash('sha256').update(m0001).digest('hex'), 1700000000001]
+    ]);
+  });
+
+  it('only applies pending migrations', () => {
+    migrate(db, bundle(m0000));
+    migrate(db, bundle(m0000, m0001));
+    migrate(db, bundle(m0000, m0001));
+
+    expect(db.values(sql`select count(*) from __drizzle_migrations`)).toEqual([[2]]);
+    expect(db.values(sql`select name from pragma_table_info('lists')`)).toEqual([['id'], ['name'], ['owner_id']]);
+  });
+
+  it('rolls back a failing migration and keeps earlier ones', () => {
+    expect(() => migrate(db, bundle(m0000, m0001, m0002))).toThrow();
+
+    expect(tableNames()).toEqual(['__drizzle_migrations', 'lists']);
+    expect(db.values(sql`select count(*) from __drizzle_migrations`)).toEqual([[2]]);
+  });
+
+  it('uses a custom migrations table', () => {
+    migrate(db, bundle(m0000), { migrationsTable: 'migrations' });
+
+    expect(tableNames()).toEqual(['lists', 'migrations']);
+  });
+
+  it('reports missing migrations', () => {
+    const { journal } = bundle(m0000);
+
+    expect(() => migrate(db, { journal, migrations: {} })).toThrow('Missing migration: 0000_migration');
+  });
+});
@@ -0,0 +1,104 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase, OPSQLiteScriptError } from '../src/index.js';
+import { splitStatements } from '../src/sqlite/script.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+const triggerScript = `
+-- Keep a log of renamed lists; comments may contain semicolons;
+create table list_log (list_id integer, message text);
+create trigger lists_renamed after update of name on lists begin
+  insert into list_log values (new.id, case when old.name = new.name then 'same; name' else 'renamed' end);
+  /* the trigger body ends here; */ insert into list_log values (new.id, 'it''s done;');
+end;
+`;
+
+describe('splitStatements', () => {
+  it('splits at semicolons outside of strings, comments and trigger bodies', () => {
+    const statements = splitStatements(triggerScript);
+
+    expect(statements.map((statement) => statement.sql)).toEqual([
+      'create table list_log (list_id integer, message text)',
+      expect.stringMatching(/^create trigger lists_renamed [\s\S]* 'it''s done;'\);\nend$/)
+    ]);
+  });
+
+  it('reports the position of each statement', () => {
+    const statements = splitStatements(`select 1;;\n  select ';' as "a;b";\r\n[weird;name];`);
+
+    expect(statements).toEqual([
+      { sql: 'select 1', index: 0, offset: 0, line: 1, column: 1 },
+      { sql: `select ';' as "a;b"`, index: 1, offset: 13, line: 2, column: 3 },
+      { sql: '[weird;name]', index: 2, offset: 35, line: 3, column: 1 }
+    ]);
+    expect(
+      splitStatements(`/* a\ncomment */ select 'multi\nline';\n-- note\n    select 2;`).map(({ line, column }) => [
+        line,
+        column
+      ])
+    ).toEqual([
+      [2, 12],
+      [5, 5]
+    ]);
+  });
+});
+
+describe('$executeScript', () => {
+  let client: DB;
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  const listNames = () =>
+    db
+      .select({ name: lists.name })
+      .from(lists)
+      .orderBy(lists.id)
+      .all()
+      .map((row) => row.name);
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+  });
+
+  it('runs every statement of the script', () => {
+    db.$executeScript(
+      `${triggerScript}\ninsert into lists (name) values ('Groceries');\nupdate lists set name = 'Chores';`
+    );
+
+    expect(listNames()).toEqual(['Chores']);
+    expect(client.executeSync('select message from list_log').rows).toEqual([
+      { message: 'renamed' },
+      { message: "it's done;" }
+    ]);
+  });
+
+  it('reports the failing statement and keeps earlier ones without a transaction', () => {
+    const script = `insert into lists (name) values ('Groceries');\n\n  insert into missing values (1);`;
+
+    let error: unknown;
+    try {
+      db.$executeScript(script);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(OPSQLiteScriptError);
+    expect((<OPSQLiteScriptError>error).statement).toMatchObject({ index: 1, line: 3, column: 3 });
+    expect((<OPSQLiteScriptError>error).message).toMatch(
+      /^Statement 2 of the script at line 3, column 3 failed: .*missing/
+    );
+    expect(listNames()).toEqual(['Groceries']);
+  });
+
+  it('rolls back the whole script when run in a transaction', () => {
+    expect(() =>
+      db.$executeScript(`insert into lists (name) values ('Groceries'); insert into missing values (1);`, {
+        transaction: true
+      })
+    ).toThrow(OPSQLiteScriptError);
+
+    expect(listNames()).toEqual([]);
+  });
+});
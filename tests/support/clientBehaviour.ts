@@ -0,0 +1,112 @@
+import { eq, sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase, type SyncSQLiteClient } from '../../src/index.js';
+import { columns, createColumnsTable, row } from './columns.js';
+import { createTables, lists, schema, todos } from './schema.js';
+
+/**
+ * Runs the behaviour every {@link SyncSQLiteClient} adapter must share against a client opened by `openClient`.
+ */
+export function describeClientBehaviour(name: string, openClient: () => Promise<SyncSQLiteClient>) {
+  describe(`${name} client`, () => {
+    let db: OPSQLiteDatabase<typeof schema>;
+
+    const listNames = () =>
+      db
+        .select({ name: lists.name })
+        .from(lists)
+        .orderBy(lists.id)
+        .all()
+        .map((row) => row.name);
+
+    beforeEach(async () => {
+      const client = await openClient();
+      [...createTables, createColumnsTable].forEach((statement) => client.run(statement));
+      db = drizzle(client, { schema });
+    });
+
+    it('round-trips every column mode', () => {
+      db.insert(columns).values(row).run();
+
+      expect(db.select().from(columns).get()).toEqual(row);
+      expect(
+        db
+          .select({ id: columns.id })
+          .from(columns)
+          .where(sql`${columns.buffer} = ${row.buffer}`)
+          .all()
+      ).toEqual([{ id: 1 }]);
+    });
+
+    it('maps run, all, get and values results', () => {
+      expect(db.insert(lists).values({ name: 'Groceries' }).run()).toEqual({ changes: 1, lastInsertRowid: 1 });
+      db.insert(lists).values({ name: 'Chores', archived: true }).run();
+
+      expect(db.select().from(lists).all()).toEqual([
+        { id: 1, name: 'Groceries', archived: false },
+        { id: 2, name: 'Chores', archived: true }
+      ]);
+      expect(db.select().from(lists).where(eq(lists.id, 2)).get()).toEqual({ id: 2, name: 'Chores', archived: true });
+      expect(db.select().from(lists).where(eq(lists.id, 3)).get()).toBeUndefined();
+      expect(db.select({ id: lists.id, name: lists.name }).from(lists).values()).toEqual([
+        [1, 'Groceries'],
+        [2, 'Chores']
+      ]);
+      expect(db.update(lists).set({ archived: true }).returning({ id: lists.id }).all()).toEqual([
+        { id: 1 },
+        { id: 2 }
+      ]);
+      expect(db.run(sql`delete from ${lists}`).changes).toBe(2);
+    });
+
+    it('reuses prepared queries with placeholders', () => {
+      const insert = db
+        .insert(lists)
+        .values({ name: sql.placeholder('name') })
+        .prepare();
+      const byName = db
+        .select({ id: lists.id })
+        .from(lists)
+        .where(eq(lists.name, sql.placeholder('name')))
+        .prepare();
+
+      insert.run({ name: 'Groceries' });
+      insert.run({ name: 'Chores' });
+
+      expect(byName.get({ name: 'Chores' })).toEqual({ id: 2 });
+      expect(byName.get({ name: 'Groceries' })).toEqual({ id: 1 });
+    });
+
+    it('commits, rolls back and nests transactions', () => {
+      db.transaction((tx) => {
+        tx.insert(lists).values({ name: 'Groceries' }).run();
+        expect(() =>
+          tx.transaction((inner) => {
+            inner.insert(lists).values({ name: 'Discarded' }).run();
+            throw new Error('inner failed');
+          })
+        ).toThrow('inner failed');
+      });
+      expect(() =>
+        db.transaction((tx) => {
+          tx.insert(lists).values({ name: 'Rolled back' }).run();
+          tx.rollback();
+        })
+      ).toThrow();
+
+      expect(listNames()).toEqual(['Groceries']);
+    });
+
+    it('runs relational queries', () => {
+      db.insert(lists).values({ name: 'Groceries' }).run();
+      db.insert(todos).values({ description: 'Milk', list_id: 1 }).run();
+
+      expect(db.query.lists.findFirst({ with: { todos: { columns: { description: true } } } }).sync()).toEqual({
+        id: 1,
+        name: 'Groceries',
+        archived: false,
+        todos: [{ description: 'Milk' }]
+      });
+    });
+  });
+}
@@ -0,0 +1,44 @@
+import { blob, integer, numeric, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+/**
+ * A table with a column of every SQLite column mode, and a row that uses all of them.
+ */
+export const columns = sqliteTable('columns', {
+  id: integer('id').primaryKey(),
+  integer: integer('integer'),
+  boolean: integer('boolean', { mode: 'boolean' }),
+  timestamp: integer('timestamp', { mode: 'timestamp' }),
+  timestampMs: integer('timestamp_ms', { mode: 'timestamp_ms' }),
+  real: real('real'),
+  numeric: numeric('numeric'),
+  numericNumber: numeric('numeric_number', { mode: 'number' }),
+  numericBigint: numeric('numeric_bigint', { mode: 'bigint' }),
+  text: text('text'),
+  enum: text('enum', { enum: ['a', 'b'] }),
+  json: text('json', { mode: 'json' }),
+  buffer: blob('buffer', { mode: 'buffer' }),
+  blobJson: blob('blob_json', { mode: 'json' }),
+  blobBigint: blob('blob_bigint', { mode: 'bigint' })
+});
+
+export const row = {
+  id: 1,
+  integer: 42,
+  boolean: true,
+  timestamp: new Date('2024-01-02T03:04:05Z'),
+  timestampMs: new Date('2024-01-02T03:04:05.678Z'),
+  real: 1.5,
+  numeric: '12.5',
+  numericNumber: 7.25,
+  numericBigint: BigInt(Number.MAX_SAFE_INTEGER),
+  text: 'text',
+  enum: 'b' as const,
+  json: { list: [1, 'two', null] },
+  buffer: Buffer.from([0, 1, 2, 254, 255]),
+  blobJson: { nested: { ok: true } },
+  blobBigint: BigInt('9223372036854775807')
+};
+
+export const createColumnsTable = `create table columns (id integer primary key, integer integer, boolean integer,
+  timestamp integer, timestamp_ms integer, real real, numeric numeric, numeric_number numeric, numeric_bigint numeric,
+  text text, enum text, json text, buffer blob, blob_json blob, blob_bigint blob)`;
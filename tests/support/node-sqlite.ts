@@ -0,0 +1,58 @@
+import initSqlJs, { type BindParams } from 'sql.js';
+import type { NodeSQLiteDatabase, NodeSQLiteStatement } from '../../src/index.js';
+
+let sqlJs: ReturnType<typeof initSqlJs> | undefined;
+
+/**
+ * Opens an in-memory `node:sqlite` database where it is available (Node.js 22.16 or later). On older versions of
+ * Node.js it opens a stand-in with the same structure, backed by sql.js, that returns rows the way `node:sqlite`
+ * does: objects or, after `setReturnArrays(true)`, arrays, with blobs as `Uint8Array`s.
+ */
+export async function openNodeSQLite(): Promise<NodeSQLiteDatabase> {
+  const moduleName = 'node:sqlite';
+  try {
+    const { DatabaseSync, StatementSync } = await import(/* @vite-ignore */ moduleName);
+    if (typeof StatementSync.prototype.setReturnArrays === 'function') {
+      return new DatabaseSync(':memory:');
+    }
+  } catch {
+    // node:sqlite is not available in this version of Node.js
+  }
+
+  const SQL = await (sqlJs ??= initSqlJs());
+  const db = new SQL.Database();
+
+  return {
+    prepare(query: string): NodeSQLiteStatement {
+      let returnArrays = false;
+      const execute = (params: unknown[]) => {
+        const stmt = db.prepare(query);
+        try {
+          stmt.bind(params as BindParams);
+          const columnNames = stmt.getColumnNames();
+          const rows: unknown[] = [];
+          while (stmt.step()) {
+            const values = stmt.get();
+            rows.push(returnArrays ? values : Object.fromEntries(columnNames.map((name, i) => [name, values[i]])));
+          }
+          return rows;
+        } finally {
+          stmt.free();
+        }
+      };
+
+      return {
+        all: (...params) => execute(params),
+        run: (...params) => {
+          execute(params);
+          const changes = db.getRowsModified();
+          const [[lastInsertRowid]] = db.exec('select last_insert_rowid()')[0]!.values as number[][];
+          return { changes, lastInsertRowid: lastInsertRowid! };
+        },
+        setReturnArrays: (enabled) => {
+          returnArrays = enabled;
+        }
+      };
+    }
+  };
+}
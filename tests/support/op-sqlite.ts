@@ -0,0 +1,126 @@
+import type { DB, QueryResult, Scalar, UpdateHookOperation } from '@op-engineering/op-sqlite';
+import initSqlJs, { type SqlValue } from 'sql.js';
+
+let sqlJs: ReturnType<typeof initSqlJs> | undefined;
+
+type UpdateHookCallback = Parameters<DB['updateHook']>[0];
+
+/**
+ * Opens an in-memory stand-in for an op-sqlite connection backed by sql.js, so that the driver can be
+ * exercised on Node without a device. Only the APIs used by the drivers are implemented, and
+ * values are converted the way op-sqlite does (booleans as integers, blobs as `ArrayBuffer`, typed arrays
+ * through their whole underlying buffer, and no support for `bigint`).
+ *
+ * sql.js has no commit or rollback hooks, so those are emulated by tracking transaction statements.
+ */
+export async function openOPSQLite(): Promise<DB> {
+  const SQL = await (sqlJs ??= initSqlJs());
+  const db = new SQL.Database();
+  const hooks: { update?: UpdateHookCallback; commit?: (() => void) | null; rollback?: (() => void) | null } = {};
+  let inTransaction = false;
+  let hasChanges = false;
+
+  db.updateHook((operation, _database, table, rowId) => {
+    hasChanges = true;
+    hooks.update?.({ table, operation: operation.toUpperCase() as UpdateHookOperation, rowId });
+  });
+
+  function notifyStatementEnd(query: string, succeeded: boolean) {
+    if (/^\s*begin\b/i.test(query)) {
+      inTransaction = succeeded;
+    } else if (/^\s*(commit|end)\b/i.test(query)) {
+      inTransaction = false;
+      hooks.commit?.();
+    } else if (/^\s*rollback\b(?!\s+to)/i.test(query)) {
+      inTransaction = false;
+      hooks.rollback?.();
+    } else if (!inTransaction && hasChanges) {
+      succeeded ? hooks.commit?.() : hooks.rollback?.();
+    }
+    if (!inTransaction) {
+      hasChanges = false;
+    }
+  }
+
+  function execute(query: string, params: Scalar[] = []) {
+    const stmt = db.prepare(query);
+    let succeeded = false;
+    try {
+      stmt.bind(params.map(toSqlValue));
+      const rawRows: Scalar[][] = [];
+      while (stmt.step()) {
+        rawRows.push(stmt.get().map(fromSqlValue));
+      }
+      succeeded = true;
+      return { rawRows, columnNames: stmt.getColumnNames() };
+    } finally {
+      stmt.free();
+      notifyStatementEnd(query, succeeded);
+    }
+  }
+
+  function executeWithResult(query: string, params?: Scalar[]): QueryResult {
+    const { rawRows, columnNames } = execute(query, params);
+    const rowsAffected = db.getRowsModified();
+    const [[insertId]] = db.exec('select last_insert_rowid()')[0].values as number[][];
+    const rows = rawRows.map((row) => Object.fromEntries(columnNames.map((name, i) => [name, row[i]])));
+    return { rows, rowsAffected, insertId, columnNames };
+  }
+
+  const mock: Partial<DB> = {
+    executeSync: executeWithResult,
+    executeRawSync(query, params) {
+      return execute(query, params).rawRows;
+    },
+    async execute(query, params) {
+      return executeWithResult(query, params);
+    },
+    async executeRaw(query, params) {
+      return execute(query, params).rawRows;
+    },
+    updateHook(callback) {
+      hooks.update = callback;
+    },
+    commitHook(callback) {
+      hooks.commit = callback;
+    },
+    rollbackHook(callback) {
+      hooks.rollback = callback;
+    },
+    // op-sqlite resolves attached files relative to its default directory, the root of sql.js' file system here
+    attach({ secondaryDbFileName, alias, location }) {
+      execute(`attach database '${location ?? ''}/${secondaryDbFileName}' as ${alias}`);
+    },
+    detach(alias) {
+      execute(`detach database ${alias}`);
+    },
+    close() {
+      db.close();
+    }
+  };
+
+  return mock as DB;
+}
+
+function toSqlValue(value: Scalar): SqlValue {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer);
+  }
+  if (typeof value === 'bigint') {
+    throw new Error('Exception in HostFunction: Unknown JS type: bigint');
+  }
+  return value;
+}
+
+function fromSqlValue(value: SqlValue): Scalar {
+  if (value instanceof Uint8Array) {
+    return value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer;
+  }
+  return value;
+}
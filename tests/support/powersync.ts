@@ -0,0 +1,35 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import type { PowerSyncBatchedUpdateNotification, PowerSyncUpdateNotification } from '../../src/index.js';
+
+/**
+ * Mirrors the hooks that `OPSQLiteConnection` from @powersync/op-sqlite installs on its connection.
+ */
+export class FakePowerSyncConnection {
+  private updateBuffer: PowerSyncUpdateNotification[] = [];
+
+  constructor(
+    readonly DB: DB,
+    private tablesUpdated: (update: PowerSyncBatchedUpdateNotification) => void
+  ) {
+    DB.rollbackHook(() => {
+      this.updateBuffer = [];
+    });
+    DB.updateHook((update) => this.addTableUpdate(update));
+  }
+
+  addTableUpdate(update: { table: string; operation: string; rowId: number }) {
+    this.updateBuffer.push({
+      table: update.table,
+      opType: update.operation === 'INSERT' ? 18 : 0,
+      rowId: update.rowId
+    });
+  }
+
+  flushUpdates() {
+    if (this.updateBuffer.length) {
+      const rawUpdates = this.updateBuffer;
+      this.updateBuffer = [];
+      this.tablesUpdated({ rawUpdates, tables: ['lists'], groupedUpdates: { lists: rawUpdates } });
+    }
+  }
+}
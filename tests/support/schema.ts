@@ -0,0 +1,32 @@
+import { relations } from 'drizzle-orm';
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+export const lists = sqliteTable('lists', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+  archived: integer('archived', { mode: 'boolean' }).notNull().default(false)
+});
+
+export const todos = sqliteTable('todos', {
+  id: integer('id').primaryKey(),
+  description: text('description').notNull(),
+  list_id: integer('list_id').references(() => lists.id)
+});
+
+export const listsRelations = relations(lists, ({ many }) => ({
+  todos: many(todos)
+}));
+
+export const todosRelations = relations(todos, ({ one }) => ({
+  list: one(lists, {
+    fields: [todos.list_id],
+    references: [lists.id]
+  })
+}));
+
+export const schema = { lists, todos, listsRelations, todosRelations };
+
+export const createTables = [
+  `create table lists (id integer primary key, name text not null, archived integer not null default 0)`,
+  `create table todos (id integer primary key, description text not null, list_id integer references lists(id))`
+];
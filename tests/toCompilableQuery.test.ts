@@ -0,0 +1,43 @@
+import { eq } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase, toCompilableQuery } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema } from './support/schema.js';
+
+describe('toCompilableQuery', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+    db.insert(lists)
+      .values([{ name: 'Groceries' }, { name: 'Chores' }])
+      .run();
+  });
+
+  it('compiles the query for PowerSync', () => {
+    const query = toCompilableQuery(db.select({ id: lists.id }).from(lists).where(eq(lists.name, 'Chores')));
+
+    expect(query.compile()).toEqual({
+      sql: 'select "id" from "lists" where "lists"."name" = ?',
+      parameters: ['Chores']
+    });
+  });
+
+  it('executes select queries through the synchronous driver', async () => {
+    const query = toCompilableQuery(db.select({ name: lists.name }).from(lists).orderBy(lists.id));
+
+    const rows: { name: string }[] = await query.execute();
+
+    expect(rows).toEqual([{ name: 'Groceries' }, { name: 'Chores' }]);
+  });
+
+  it('wraps single results of relational queries in an array', async () => {
+    const query = toCompilableQuery(
+      db.query.lists.findFirst({ where: eq(lists.name, 'Chores'), columns: { id: true } })
+    );
+
+    expect(await query.execute()).toEqual([{ id: 2 }]);
+  });
+});
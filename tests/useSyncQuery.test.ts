@@ -0,0 +1,96 @@
+import { eq } from 'drizzle-orm';
+import { act, createElement, type ReactElement } from 'react';
+import TestRenderer from 'react-test-renderer';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, type OPSQLiteDatabase } from '../src/index.js';
+import { useSyncQuery } from '../src/react/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { createTables, lists, schema, todos } from './support/schema.js';
+
+describe('useSyncQuery', () => {
+  let db: OPSQLiteDatabase<typeof schema>;
+  let renders: unknown[];
+
+  function ListNames({ listId }: { listId?: number }) {
+    const rows = useSyncQuery(
+      db,
+      () =>
+        db
+          .select()
+          .from(lists)
+          .where(listId ? eq(lists.id, listId) : undefined)
+          .orderBy(lists.id),
+      [listId]
+    );
+    renders.push(rows);
+    return rows.map((row) => row.name).join(',');
+  }
+
+  function render(element: ReactElement) {
+    let renderer: TestRenderer.ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(element);
+    });
+    return renderer!;
+  }
+
+  beforeAll(() => {
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(async () => {
+    const client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+    renders = [];
+  });
+
+  it('returns results on the first render', () => {
+    const renderer = render(createElement(ListNames));
+
+    expect(renderer.toJSON()).toBe('Groceries');
+    expect(renders).toHaveLength(1);
+  });
+
+  it('re-renders when a source table changes', () => {
+    const renderer = render(createElement(ListNames));
+
+    act(() => {
+      db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+    });
+
+    expect(renderer.toJSON()).toBe('Groceries,Chores');
+  });
+
+  it('keeps the result identity when results are unchanged', () => {
+    render(createElement(ListNames));
+
+    act(() => {
+      db.update(lists).set({ name: 'Groceries' }).where(eq(lists.id, 1)).run();
+      db.insert(todos).values({ description: 'Milk' }).run();
+    });
+
+    expect(renders).toHaveLength(1);
+  });
+
+  it('rebuilds the query when dependencies change', () => {
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+    const renderer = render(createElement(ListNames, { listId: 1 }));
+
+    act(() => {
+      renderer.update(createElement(ListNames, { listId: 2 }));
+    });
+
+    expect(renderer.toJSON()).toBe('Chores');
+  });
+
+  it('stops watching after unmounting', () => {
+    const renderer = render(createElement(ListNames));
+    act(() => renderer.unmount());
+
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(renders).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { sql } from 'drizzle-orm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { drizzle, drizzleAsync } from '../src/index.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { columns, createColumnsTable, row } from './support/columns.js';
+import type { DB } from '@op-engineering/op-sqlite';
+
+describe('column value conversion', () => {
+  let client: DB;
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    client.executeSync(createColumnsTable);
+  });
+
+  it('round-trips every column mode through the sync driver', () => {
+    const db = drizzle(client);
+    db.insert(columns).values(row).run();
+
+    expect(db.select().from(columns).get()).toEqual(row);
+    expect(
+      db
+        .select()
+        .from(columns)
+        .where(sql`${columns.buffer} = ${row.buffer}`)
+        .all()
+    ).toHaveLength(1);
+  });
+
+  it('round-trips every column mode through the async driver', async () => {
+    const db = drizzleAsync(client);
+    await db.insert(columns).values(row);
+
+    expect(await db.select().from(columns).get()).toEqual(row);
+  });
+
+  it('binds bigint parameters beyond 2^53 as exact integers', () => {
+    const db = drizzle(client);
+    const large = BigInt('4611686018427387905');
+    db.run(sql`insert into ${columns} (id, integer) values (${BigInt(2)}, ${large})`);
+
+    expect(db.get(sql`select id, cast(integer as text) as value, typeof(integer) as type from ${columns}`)).toEqual({
+      id: 2,
+      value: large.toString(),
+      type: 'integer'
+    });
+  });
+
+  it('binds only the bytes of typed array views', () => {
+    const db = drizzle(client);
+    const pool = new Uint8Array([9, 9, 1, 2, 3, 9]);
+    db.run(sql`insert into ${columns} (id, buffer) values (1, ${pool.subarray(2, 5)})`);
+
+    expect(db.select({ buffer: columns.buffer }).from(columns).get()).toEqual({ buffer: Buffer.from([1, 2, 3]) });
+  });
+});
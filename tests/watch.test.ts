@@ -0,0 +1,159 @@
+import { eq, sql } from 'drizzle-orm';
+import { sqliteView, text } from 'drizzle-orm/sqlite-core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { DB } from '@op-engineering/op-sqlite';
+import Database from 'better-sqlite3';
+import {
+  createBetterSQLite3Client,
+  drizzle,
+  getPowerSyncWriteConnection,
+  type OPSQLiteDatabase
+} from '../src/index.js';
+import { getSourceTables } from '../src/sqlite/watch.js';
+import { openOPSQLite } from './support/op-sqlite.js';
+import { FakePowerSyncConnection } from './support/powersync.js';
+import { createTables, lists, schema, todos } from './support/schema.js';
+
+describe('$watch', () => {
+  let client: DB;
+  let db: OPSQLiteDatabase<typeof schema>;
+
+  beforeEach(async () => {
+    client = await openOPSQLite();
+    createTables.forEach((statement) => client.executeSync(statement));
+    db = drizzle(client, { schema });
+    db.insert(lists).values({ id: 1, name: 'Groceries' }).run();
+  });
+
+  it('emits the initial result synchronously', () => {
+    const results: string[][] = [];
+
+    db.$watch(db.select().from(lists), (rows) => results.push(rows.map((row) => row.name)));
+
+    expect(results).toEqual([['Groceries']]);
+  });
+
+  it('re-runs the query when a source table change is committed', () => {
+    const results: string[][] = [];
+    db.$watch(db.select().from(lists).orderBy(lists.id), (rows) => results.push(rows.map((row) => row.name)));
+
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+    db.insert(todos).values({ description: 'Milk' }).run();
+    db.transaction((tx) => {
+      tx.update(lists).set({ name: 'Shopping' }).where(eq(lists.id, 1)).run();
+      tx.delete(lists).where(eq(lists.id, 2)).run();
+    });
+
+    expect(results).toEqual([['Groceries'], ['Groceries', 'Chores'], ['Shopping']]);
+  });
+
+  it('ignores rolled back changes', () => {
+    let runs = 0;
+    db.$watch(db.select().from(lists), () => runs++);
+
+    expect(() =>
+      db.transaction((tx) => {
+        tx.insert(lists).values({ id: 2, name: 'Chores' }).run();
+        tx.rollback();
+      })
+    ).toThrow();
+
+    expect(runs).toBe(1);
+  });
+
+  it('watches joined tables and relational queries', () => {
+    let joined = 0;
+    let relational = 0;
+    db.$watch(db.select().from(todos).leftJoin(lists, eq(todos.list_id, lists.id)), () => joined++);
+    db.$watch(db.query.lists.findMany({ with: { todos: true } }), () => relational++);
+
+    db.insert(todos).values({ description: 'Milk', list_id: 1 }).run();
+
+    expect(joined).toBe(2);
+    expect(relational).toBe(2);
+  });
+
+  it('resolves views to their underlying tables', () => {
+    const listNames = sqliteView('list_names', { name: text('name').notNull() }).existing();
+    db.run(sql`create view list_names as select name from lists`);
+    const results: string[][] = [];
+    db.$watch(db.select().from(listNames), (rows) => results.push(rows.map((row) => row.name)));
+
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(results).toEqual([['Groceries'], ['Groceries', 'Chores']]);
+  });
+
+  it('stops re-running after disposal', () => {
+    let runs = 0;
+    const dispose = db.$watch(db.select().from(lists), () => runs++);
+    dispose();
+
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(runs).toBe(1);
+  });
+
+  it("keeps calling the hooks of PowerSync's write connection and restores them after disposal", () => {
+    const notifications: number[][] = [];
+    const connection = new FakePowerSyncConnection(client, (update) =>
+      notifications.push(update.rawUpdates.map((n) => n.rowId))
+    );
+    db = drizzle(getPowerSyncWriteConnection({ database: { writeConnection: connection } }), { schema });
+    let runs = 0;
+
+    const dispose = db.$watch(db.select().from(lists), () => runs++);
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+    connection.flushUpdates();
+    dispose();
+    db.insert(lists).values({ id: 3, name: 'Errands' }).run();
+    connection.flushUpdates();
+
+    expect(runs).toBe(2);
+    expect(notifications).toEqual([[2], [3]]);
+  });
+
+  it('reports errors of re-runs to onError', () => {
+    const errors: unknown[] = [];
+    let fail = false;
+    const query = {
+      toSQL: () => db.select().from(lists).toSQL(),
+      all: () => {
+        if (fail) {
+          throw new Error('failed');
+        }
+        return db.select().from(lists).all();
+      }
+    };
+    db.$watch(query, () => {}, { onError: (error) => errors.push(error) });
+
+    fail = true;
+    db.insert(lists).values({ id: 2, name: 'Chores' }).run();
+
+    expect(errors).toEqual([new Error('failed')]);
+  });
+});
+
+// sql.js is built without FTS5, so virtual tables are resolved on better-sqlite3
+describe('getSourceTables on better-sqlite3', () => {
+  it('resolves FTS5 tables to their shadow tables and content table', () => {
+    const client = createBetterSQLite3Client(new Database(':memory:'));
+    createTables.forEach((statement) => client.run(statement));
+    client.run(`create virtual table lists_search using fts5(name, content='lists', content_rowid='id')`);
+    client.run(`create virtual table todos_search using fts5(description)`);
+
+    const tables = getSourceTables(client, {
+      sql: `select "rowid", "name" from "lists_search" where "lists_search" match ?`,
+      params: ['groceries']
+    });
+
+    expect(tables.sort()).toEqual([
+      'lists',
+      'lists_search',
+      'lists_search_config',
+      'lists_search_data',
+      'lists_search_docsize',
+      'lists_search_idx'
+    ]);
+  });
+});